@@ -0,0 +1,223 @@
+/**
+ * Aggregated Logs
+ * Streams the logs of several containers into one terminal, prefixed per container
+ */
+
+import * as vscode from 'vscode';
+import { CliProcess, ContainerCli } from './cli';
+import { parseLogTimestamp } from './providers/logDocumentProvider';
+
+// Lines are held this long so lines from other containers can be merged in by time
+const MERGE_WINDOW_MS = 500;
+
+// How often merged lines are written to the terminal
+const FLUSH_INTERVAL_MS = 250;
+
+// Oldest lines are dropped beyond this many while paused
+const MAX_PENDING_LINES = 20000;
+
+// ANSI foreground colours cycled through for container prefixes
+const PREFIX_COLORS = [36, 33, 35, 32, 34, 31, 96, 93, 95, 92, 94, 91];
+
+/**
+ * A container whose logs are aggregated
+ */
+export interface LogSource {
+    id: string;
+    name: string;
+}
+
+/**
+ * A line waiting to be merged
+ */
+export interface MergedLogLine {
+    /** Index of the source in the aggregated set */
+    source: number;
+    text: string;
+    /** Timestamp written in the line, inherited from the source's previous line, or the arrival time */
+    time: number;
+    arrival: number;
+}
+
+/**
+ * Buffers lines from several sources and releases them ordered by time
+ */
+export class LogMerger {
+    private _pending: MergedLogLine[] = [];
+    private _lastTimes = new Map<number, number>();
+    private _dropped = 0;
+
+    constructor(private readonly _windowMs = MERGE_WINDOW_MS, private readonly _maxPending = MAX_PENDING_LINES) { }
+
+    /**
+     * Lines dropped because the buffer was full since the last call
+     */
+    takeDropped(): number {
+        const dropped = this._dropped;
+        this._dropped = 0;
+        return dropped;
+    }
+
+    /**
+     * Add a line received from a source
+     */
+    push(source: number, text: string, now = Date.now()): void {
+        const time = parseLogTimestamp(text)?.getTime() ?? this._lastTimes.get(source) ?? now;
+        this._lastTimes.set(source, time);
+        this._pending.push({ source, text, time, arrival: now });
+        if (this._pending.length > this._maxPending) {
+            this._dropped += this._pending.length - this._maxPending;
+            this._pending.splice(0, this._pending.length - this._maxPending);
+        }
+    }
+
+    /**
+     * Remove and return lines older than the merge window, ordered by time
+     * Lines with equal times keep their arrival order
+     * @param all release every pending line regardless of age
+     */
+    drain(now = Date.now(), all = false): MergedLogLine[] {
+        const cutoff = now - this._windowMs;
+        const ready = all ? this._pending : this._pending.filter(line => line.arrival <= cutoff);
+        this._pending = all ? [] : this._pending.filter(line => line.arrival > cutoff);
+        return ready.sort((a, b) => a.time - b.time);
+    }
+
+    /**
+     * Number of lines waiting to be released
+     */
+    get pendingCount(): number {
+        return this._pending.length;
+    }
+}
+
+/**
+ * Format the coloured, aligned prefix for a source
+ */
+export function formatLogPrefix(name: string, index: number, width: number): string {
+    const color = PREFIX_COLORS[index % PREFIX_COLORS.length];
+    return `\x1b[${color}m${name.padEnd(width)} |\x1b[0m `;
+}
+
+/**
+ * Pseudoterminal that merges the log streams of several containers
+ * Press p or space to pause and resume, Ctrl+C to stop
+ */
+export class AggregatedLogTerminal implements vscode.Pseudoterminal {
+    private _onDidWrite = new vscode.EventEmitter<string>();
+    readonly onDidWrite = this._onDidWrite.event;
+    private _onDidClose = new vscode.EventEmitter<void>();
+    readonly onDidClose = this._onDidClose.event;
+
+    private _merger = new LogMerger();
+    private _processes: CliProcess[] = [];
+    private _timer: ReturnType<typeof setInterval> | undefined;
+    private _paused = false;
+    private _closed = false;
+    private readonly _width: number;
+
+    constructor(
+        private readonly _cli: ContainerCli,
+        private readonly _sources: readonly LogSource[]
+    ) {
+        this._width = Math.max(...this._sources.map(s => s.name.length));
+    }
+
+    /**
+     * Whether output is currently held back
+     */
+    get paused(): boolean {
+        return this._paused;
+    }
+
+    /**
+     * Start streaming every source
+     */
+    open(): void {
+        this.writeStatus(`Streaming logs of ${this._sources.map(s => s.name).join(', ')}. Press p or space to pause, Ctrl+C to stop.`);
+
+        const tail = this._cli.config.logTail;
+        this._sources.forEach((source, index) => {
+            const process = this._cli.streamLogs(source.id, { follow: true, tail: tail > 0 ? tail : undefined });
+            process.onDidOutputLine(({ text }) => this._merger.push(index, text));
+            void process.completion.then((result) => {
+                if (this._closed) {
+                    return;
+                }
+                const reason = result.success ? 'ended' : `ended: ${result.cliError?.message || result.error || 'unknown error'}`;
+                this._merger.push(index, `--- log stream ${reason} ---`);
+            });
+            this._processes.push(process);
+        });
+
+        this._timer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+
+    /**
+     * Toggle pausing on p or space, stop on Ctrl+C
+     */
+    handleInput(data: string): void {
+        if (data === 'p' || data === 'P' || data === ' ') {
+            this.setPaused(!this._paused);
+        } else if (data === '\x03') {
+            this.close();
+            this._onDidClose.fire();
+        }
+    }
+
+    /**
+     * Hold back or release output; lines keep being collected while paused
+     */
+    setPaused(paused: boolean): void {
+        if (paused === this._paused || this._closed) {
+            return;
+        }
+        if (paused) {
+            // Show everything received so far before holding output back
+            this.flush(true);
+            this._paused = true;
+            this.writeStatus('Paused. Press p or space to resume.');
+        } else {
+            this._paused = false;
+            this.writeStatus(`Resumed with ${this._merger.pendingCount} buffered lines.`);
+            this.flush(true);
+        }
+    }
+
+    /**
+     * Stop every stream
+     */
+    close(): void {
+        if (this._closed) {
+            return;
+        }
+        this._closed = true;
+        if (this._timer) {
+            clearInterval(this._timer);
+        }
+        this._processes.forEach(p => p.dispose());
+        this._processes = [];
+    }
+
+    private flush(all = false): void {
+        if (this._paused) {
+            return;
+        }
+        const dropped = this._merger.takeDropped();
+        if (dropped > 0) {
+            this.writeStatus(`${dropped} lines were dropped while paused.`);
+        }
+        const lines = this._merger.drain(Date.now(), all);
+        if (lines.length === 0) {
+            return;
+        }
+        const text = lines
+            .map(line => formatLogPrefix(this._sources[line.source].name, line.source, this._width) + line.text)
+            .join('\r\n');
+        this._onDidWrite.fire(`${text}\r\n`);
+    }
+
+    private writeStatus(message: string): void {
+        this._onDidWrite.fire(`\x1b[2m${message}\x1b[0m\r\n`);
+    }
+}
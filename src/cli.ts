@@ -3,7 +3,8 @@
  * Provides TypeScript interface to the `container` CLI command
  */
 
-import { execFile } from 'child_process';
+import { execFile, spawn } from 'child_process';
+import * as path from 'path';
 import { promisify } from 'util';
 import * as vscode from 'vscode';
 import {
@@ -11,6 +12,9 @@ import {
     ContainerStatus,
     ContainerInspect,
     ContainerStats,
+    Mount,
+    NetworkAttachment,
+    PortMapping,
     Image,
     ImageInspect,
     Volume,
@@ -18,17 +22,666 @@ import {
     Network,
     NetworkInspect,
     CliResult,
+    CliError,
+    CliErrorKind,
+    SystemServiceState,
+    ContainerGrouping,
     RunContainerOptions,
+    ExecOptions,
+    ExecOutput,
+    ResourceAlertRule,
     BuildImageOptions,
     PullImageOptions,
     CreateVolumeOptions,
     CreateNetworkOptions,
     ExtensionConfig
 } from './types';
+import { parseSize } from './pullProgress';
 
 // Use execFile to avoid shell injection vulnerabilities
 const execFileAsync = promisify(execFile);
 
+/**
+ * Options for a command run in a container with captured output
+ */
+export interface ExecProcessOptions extends ExecOptions {
+    /** Data written to the command's stdin before it is closed */
+    input?: string | Uint8Array;
+    token?: vscode.CancellationToken;
+    /** Kill the command after this many milliseconds (0 or undefined for no limit) */
+    timeout?: number;
+}
+
+/**
+ * Options for copying files between the host and a container
+ */
+export interface CopyOptions {
+    token?: vscode.CancellationToken;
+    /** Called with the number of archive bytes transferred so far */
+    onProgress?: (bytes: number) => void;
+}
+
+/**
+ * One side of a piped copy
+ */
+interface PipeEnd {
+    command: string;
+    args: string[];
+    env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Options for a streamed CLI process
+ */
+export interface StreamOptions {
+    /** Kill the process when cancellation is requested */
+    token?: vscode.CancellationToken;
+    /** Kill the process after this many milliseconds (0 or undefined for no limit) */
+    timeout?: number;
+    /** Data written to the process stdin before it is closed */
+    input?: string | Uint8Array;
+}
+
+/**
+ * A single line of output from a streamed CLI process
+ */
+export interface CliOutputLine {
+    stream: 'stdout' | 'stderr';
+    text: string;
+}
+
+/**
+ * Final result of a streamed CLI process
+ */
+export interface CliProcessResult extends CliResult<void> {
+    cancelled: boolean;
+    timedOut: boolean;
+}
+
+/**
+ * Handle to a running CLI process
+ */
+export interface CliProcess extends vscode.Disposable {
+    /** Fires for every complete line written to stdout or stderr */
+    readonly onDidOutputLine: vscode.Event<CliOutputLine>;
+    /** Resolves once the process has exited; never rejects */
+    readonly completion: Promise<CliProcessResult>;
+    /** Terminate the process */
+    kill(): void;
+}
+
+/**
+ * Splits chunked process output into complete lines
+ * Carriage returns are treated as line breaks so progress redraws surface as lines
+ */
+export class LineBuffer {
+    private _pending = '';
+    // The previous chunk ended with \r, whose \n may start the next chunk
+    private _endedWithCarriageReturn = false;
+
+    /**
+     * Append a chunk and return the lines it completed
+     */
+    push(chunk: string): string[] {
+        const text = this._endedWithCarriageReturn && chunk.startsWith('\n') ? chunk.substring(1) : chunk;
+        if (chunk.length > 0) {
+            this._endedWithCarriageReturn = text.endsWith('\r');
+        }
+        const parts = (this._pending + text).split(/\r\n|\r|\n/);
+        this._pending = parts.pop() ?? '';
+        return parts;
+    }
+
+    /**
+     * Return any trailing partial line
+     */
+    flush(): string[] {
+        const rest = this._pending;
+        this._pending = '';
+        this._endedWithCarriageReturn = false;
+        return rest ? [rest] : [];
+    }
+}
+
+// Number of stderr lines kept for the error message of a streamed process
+const STDERR_TAIL_LINES = 20;
+
+// Default timeout for buffered commands
+const EXECUTE_TIMEOUT_MS = 60000;
+
+// Starting the service may download a kernel on first run
+const SYSTEM_COMMAND_TIMEOUT_MS = 5 * 60000;
+
+/**
+ * Details of a failed CLI invocation used for classification
+ */
+export interface CliFailure {
+    message: string;
+    exitCode: number;
+    cliPath: string;
+    /** Node error code such as ENOENT or EACCES, when the process could not be run */
+    errno?: string;
+    timedOut?: boolean;
+    timeoutMs?: number;
+    cancelled?: boolean;
+}
+
+// Message patterns for each failure category, checked in order
+const ERROR_PATTERNS: Array<[CliErrorKind.ServiceNotRunning | CliErrorKind.PermissionDenied | CliErrorKind.Conflict | CliErrorKind.InUse | CliErrorKind.NotFound, RegExp]> = [
+    [CliErrorKind.ServiceNotRunning, /XPC connection|connection (is )?invalid|system service|apiserver|service (is )?not running|container system start/i],
+    [CliErrorKind.PermissionDenied, /permission denied|operation not permitted|not authorized/i],
+    [CliErrorKind.Conflict, /already exists|conflict|name .* (is )?(already )?in use/i],
+    [CliErrorKind.InUse, /in use|is being used|is running|still running|has active|busy/i],
+    [CliErrorKind.NotFound, /not found|no such|does not exist|notFound|unknown (container|image|volume|network)/i]
+];
+
+// Signals that suspend or resume a container rather than end it
+const NON_TERMINATING_SIGNALS = new Set(['SIGSTOP', 'STOP', 'SIGCONT', 'CONT']);
+
+// State key of the IDs of containers paused with SIGSTOP
+const SIGNAL_PAUSED_KEY = 'appleContainers.signalPaused';
+
+/**
+ * Check whether a CLI error says the subcommand itself does not exist
+ */
+export function isUnsupportedCommand(message: string): boolean {
+    return /unexpected argument|unknown (sub)?command|unrecognized (sub)?command|invalid (sub)?command|no such (sub)?command/i.test(message);
+}
+
+/**
+ * Classify a CLI failure into a typed error
+ */
+export function classifyCliError(failure: CliFailure): CliError {
+    const { message } = failure;
+
+    if (failure.cancelled) {
+        return { kind: CliErrorKind.Cancelled, message };
+    }
+    if (failure.timedOut) {
+        return { kind: CliErrorKind.Timeout, message, timeoutMs: failure.timeoutMs };
+    }
+    if (failure.errno === 'ENOENT') {
+        return {
+            kind: CliErrorKind.NotInstalled,
+            message: `Container CLI not found at "${failure.cliPath}"`,
+            cliPath: failure.cliPath
+        };
+    }
+    if (failure.errno === 'EACCES') {
+        return { kind: CliErrorKind.PermissionDenied, message };
+    }
+
+    for (const [kind, pattern] of ERROR_PATTERNS) {
+        if (pattern.test(message)) {
+            return { kind, message };
+        }
+    }
+    return { kind: CliErrorKind.Unknown, message, exitCode: failure.exitCode };
+}
+
+/**
+ * Format bytes to human readable size using IEC units (1024-based)
+ */
+export function formatSize(bytes: number): string {
+    if (bytes === 0) { return '0 B'; }
+    const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+    return `${(bytes / Math.pow(1024, i)).toFixed(1)} ${units[i]}`;
+}
+
+/**
+ * A container's previous CPU time sample
+ */
+export interface CpuSample {
+    cpuUsageUsec: number;
+    time: number;
+}
+
+/**
+ * Read a nested JSON object, or an empty one when it is missing
+ */
+function jsonObject(value: unknown): Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Map a CLI status string to a container status
+ */
+export function parseContainerStatus(value: unknown): ContainerStatus {
+    switch (String(value ?? '').toLowerCase()) {
+        case 'running':
+            return ContainerStatus.Running;
+        case 'stopped':
+        case 'exited':
+            return ContainerStatus.Stopped;
+        case 'created':
+            return ContainerStatus.Created;
+        case 'paused':
+            return ContainerStatus.Paused;
+        default:
+            return ContainerStatus.Unknown;
+    }
+}
+
+/**
+ * Whether a container has live processes; paused containers count as running everywhere a status is summarised
+ */
+export function isContainerActive(container: Container): boolean {
+    return container.status === ContainerStatus.Running || container.status === ContainerStatus.Paused;
+}
+
+/**
+ * Normalise `configuration.publishedPorts`
+ */
+function parsePublishedPorts(value: unknown): PortMapping[] {
+    return (Array.isArray(value) ? value : []).map((raw) => {
+        const p = jsonObject(raw);
+        return {
+            hostIp: p.hostAddress as string || undefined,
+            hostPort: p.hostPort as number,
+            containerPort: p.containerPort as number,
+            protocol: (p.proto as 'tcp' | 'udp') || 'tcp'
+        };
+    });
+}
+
+/**
+ * Describe the process user, which the CLI reports as a raw string or a uid/gid pair
+ */
+function parseProcessUser(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+        return value || undefined;
+    }
+    const user = jsonObject(value);
+    const raw = jsonObject(user.raw).userString;
+    if (typeof raw === 'string' && raw) {
+        return raw;
+    }
+    const id = jsonObject(user.id);
+    if (typeof id.uid === 'number') {
+        return typeof id.gid === 'number' ? `${id.uid}:${id.gid}` : `${id.uid}`;
+    }
+    return undefined;
+}
+
+/**
+ * Normalise one entry of `container inspect`
+ * The CLI nests the container's settings under `configuration` and its init process under `configuration.initProcess`
+ */
+export function parseContainerInspect(raw: Record<string, unknown>): ContainerInspect {
+    const config = jsonObject(raw.configuration);
+    const image = jsonObject(config.image);
+    const init = jsonObject(config.initProcess);
+    const resources = jsonObject(config.resources);
+    const platform = jsonObject(config.platform);
+    const strings = (value: unknown) => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+    // Exit details may sit at the top level or inside a status object next to the state
+    const status = jsonObject(raw.status);
+    const exitCode = [raw.exitCode, raw.exitStatus, status.exitCode, status.exitStatus, jsonObject(raw.state).exitCode]
+        .find((v): v is number => typeof v === 'number');
+
+    const mounts = (Array.isArray(config.mounts) ? config.mounts : []).map((entry) => {
+        const mount = jsonObject(entry);
+        // The type is an enum encoded as a single-key object, e.g. {"virtiofs": {}}
+        const kind = typeof mount.type === 'string' ? mount.type : Object.keys(jsonObject(mount.type))[0] ?? '';
+        const options = strings(mount.options) ?? [];
+        return {
+            type: kind === 'tmpfs' ? 'tmpfs' : kind === 'volume' ? 'volume' : 'bind',
+            source: mount.source as string || '',
+            target: (mount.destination ?? mount.target) as string || '',
+            readonly: options.includes('ro') || options.includes('readonly') || mount.readonly === true
+        } as Mount;
+    });
+
+    // Attachments with addresses are reported next to the configuration; fall back to the configured network names
+    const attachments = Array.isArray(raw.networks) && raw.networks.length > 0 ? raw.networks : Array.isArray(config.networks) ? config.networks : [];
+    const networks = attachments.map((entry): NetworkAttachment => {
+        if (typeof entry === 'string') {
+            return { name: entry };
+        }
+        const attachment = jsonObject(entry);
+        const address = attachment.address as string | undefined;
+        return {
+            name: (attachment.network ?? attachment.name) as string || '',
+            ipAddress: address ? address.split('/')[0] : undefined,
+            macAddress: attachment.macAddress as string || undefined
+        };
+    });
+
+    const executable = init.executable as string | undefined;
+    const memoryBytes = resources.memoryInBytes;
+    const ports = parsePublishedPorts(config.publishedPorts);
+    return {
+        id: config.id as string || '',
+        name: config.id as string || '',
+        image: image.reference as string || 'unknown',
+        imageId: jsonObject(image.descriptor).digest as string || '',
+        status: parseContainerStatus(typeof raw.status === 'string' ? raw.status : status.state ?? status.status),
+        created: raw.createdDate as string || '',
+        started: raw.startedDate as string || undefined,
+        exitCode,
+        restartCount: 0,
+        platform: {
+            os: platform.os as string || 'linux',
+            arch: platform.architecture as string || ''
+        },
+        config: {
+            env: strings(init.environment),
+            cmd: executable ? [executable, ...(strings(init.arguments) ?? [])] : undefined,
+            workingDir: init.workingDirectory as string || undefined,
+            user: parseProcessUser(init.user)
+        },
+        resources: {
+            cpus: typeof resources.cpus === 'number' ? resources.cpus : undefined,
+            memory: typeof memoryBytes === 'number' && memoryBytes > 0 ? formatSize(memoryBytes) : undefined
+        },
+        mounts: mounts.length > 0 ? mounts : undefined,
+        networks: networks.length > 0 ? networks : undefined,
+        ports: ports.length > 0 ? ports : undefined
+    };
+}
+
+/**
+ * Normalise one entry of `container stats --format json`
+ * Accepts byte counts and cumulative CPU time as well as preformatted sizes and percentages
+ * @param previous the container's previous CPU sample; without one, CPU time yields 0%
+ */
+export function parseRawStats(raw: Record<string, unknown>, previous?: CpuSample, now = Date.now()): ContainerStats {
+    const bytes = (count: unknown, formatted: unknown): number => {
+        if (typeof count === 'number') {
+            return count;
+        }
+        if (typeof formatted === 'number') {
+            return formatted;
+        }
+        return typeof formatted === 'string' ? parseSize(formatted) ?? 0 : 0;
+    };
+    const percent = (value: unknown): number => {
+        if (typeof value === 'number') {
+            return value;
+        }
+        return typeof value === 'string' ? parseFloat(value) || 0 : 0;
+    };
+
+    const id = raw.id as string || '';
+    const memoryUsageBytes = bytes(raw.memoryUsageBytes, raw.memoryUsage);
+    const memoryLimitBytes = bytes(raw.memoryLimitBytes, raw.memoryLimit);
+    const networkInBytes = bytes(raw.networkRxBytes, raw.networkIn);
+    const networkOutBytes = bytes(raw.networkTxBytes, raw.networkOut);
+    const blockInBytes = bytes(raw.blockReadBytes, raw.blockIn);
+    const blockOutBytes = bytes(raw.blockWriteBytes, raw.blockOut);
+
+    // CPU time is cumulative, so the percentage comes from the change since the previous sample
+    const cpuUsageUsec = typeof raw.cpuUsageUsec === 'number' ? raw.cpuUsageUsec : undefined;
+    let cpuPercent = percent(raw.cpuPercent);
+    if (cpuUsageUsec !== undefined) {
+        const elapsedUsec = previous ? (now - previous.time) * 1000 : 0;
+        cpuPercent = previous && elapsedUsec > 0 && cpuUsageUsec >= previous.cpuUsageUsec
+            ? (cpuUsageUsec - previous.cpuUsageUsec) / elapsedUsec * 100
+            : 0;
+    }
+
+    return {
+        id,
+        name: raw.name as string || id,
+        cpuPercent,
+        memoryUsage: formatSize(memoryUsageBytes),
+        memoryLimit: formatSize(memoryLimitBytes),
+        memoryPercent: raw.memoryPercent !== undefined
+            ? percent(raw.memoryPercent)
+            : memoryLimitBytes > 0 ? memoryUsageBytes / memoryLimitBytes * 100 : 0,
+        networkIn: formatSize(networkInBytes),
+        networkOut: formatSize(networkOutBytes),
+        blockIn: formatSize(blockInBytes),
+        blockOut: formatSize(blockOutBytes),
+        pids: typeof raw.pids === 'number' ? raw.pids : typeof raw.numProcesses === 'number' ? raw.numProcesses : 0,
+        memoryUsageBytes,
+        memoryLimitBytes,
+        networkInBytes,
+        networkOutBytes,
+        blockInBytes,
+        blockOutBytes,
+        cpuUsageUsec
+    };
+}
+
+/**
+ * Build the `container exec` arguments for a non-interactive command
+ */
+export function buildExecArgs(id: string, command: string[], options: ExecOptions & { input?: unknown } = {}): string[] {
+    const args = ['exec'];
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+        args.push('--env', `${key}=${value}`);
+    }
+    if (options.workdir) {
+        args.push('--workdir', options.workdir);
+    }
+    if (options.user) {
+        args.push('--user', options.user);
+    }
+    // Keep stdin open only when there is something to write to it
+    if (options.input !== undefined) {
+        args.push('--interactive');
+    }
+    args.push(id, ...command);
+    return args;
+}
+
+/**
+ * Build `tar` arguments that archive a file or directory to stdout under its base name
+ */
+export function tarCreateArgs(source: string): string[] {
+    return ['-c', '-f', '-', '-C', path.posix.dirname(source) || '/', path.posix.basename(source) || '.'];
+}
+
+/**
+ * Build `tar` arguments that extract an archive from stdin into a directory
+ * Modes are kept (-p); files are owned by the extracting user rather than the original owner (-o)
+ */
+export function tarExtractArgs(destination: string): string[] {
+    return ['-x', '-p', '-o', '-f', '-', '-C', destination];
+}
+
+/**
+ * Format a port the way `--publish` expects it, bracketing IPv6 host addresses
+ */
+export function formatPortSpec(port: NonNullable<RunContainerOptions['ports']>[number]): string {
+    const ip = port.hostIp ? `${port.hostIp.includes(':') ? `[${port.hostIp}]` : port.hostIp}:` : '';
+    const protocol = port.protocol && port.protocol !== 'tcp' ? `/${port.protocol}` : '';
+    return `${ip}${port.host}:${port.container}${protocol}`;
+}
+
+/**
+ * Format a mount the way `--mount` expects it, leaving out the source of tmpfs mounts
+ */
+export function formatMountSpec(mount: NonNullable<RunContainerOptions['mounts']>[number]): string {
+    const source = mount.source ? `,source=${mount.source}` : '';
+    return `type=${mount.type}${source},target=${mount.target}${mount.readonly ? ',readonly' : ''}`;
+}
+
+/**
+ * Build the `container run` arguments for a set of run options
+ */
+export function buildRunArgs(options: RunContainerOptions): string[] {
+    const args = ['run'];
+
+    // Management options
+    if (options.name) {
+        args.push('--name', options.name);
+    }
+    if (options.detach) {
+        args.push('--detach');
+    }
+    if (options.remove) {
+        args.push('--rm');
+    }
+    if (options.interactive) {
+        args.push('--interactive');
+    }
+    if (options.tty) {
+        args.push('--tty');
+    }
+
+    // Environment
+    if (options.env) {
+        for (const [key, value] of Object.entries(options.env)) {
+            args.push('--env', `${key}=${value}`);
+        }
+    }
+    if (options.envFile) {
+        args.push('--env-file', options.envFile);
+    }
+
+    // Ports
+    if (options.ports) {
+        for (const port of options.ports) {
+            args.push('--publish', formatPortSpec(port));
+        }
+    }
+
+    // Volumes
+    if (options.volumes) {
+        for (const vol of options.volumes) {
+            let volSpec = `${vol.source}:${vol.target}`;
+            if (vol.readonly) {
+                volSpec += ':ro';
+            }
+            args.push('--volume', volSpec);
+        }
+    }
+
+    // Mounts
+    if (options.mounts) {
+        for (const mount of options.mounts) {
+            args.push('--mount', formatMountSpec(mount));
+        }
+    }
+
+    // Network
+    if (options.network) {
+        args.push('--network', options.network);
+    }
+
+    // Process options
+    if (options.workdir) {
+        args.push('--workdir', options.workdir);
+    }
+    if (options.user) {
+        args.push('--user', options.user);
+    }
+
+    // Resource limits
+    if (options.cpus) {
+        args.push('--cpus', options.cpus.toString());
+    }
+    if (options.memory) {
+        args.push('--memory', options.memory);
+    }
+
+    // Platform
+    if (options.platform) {
+        args.push('--platform', options.platform);
+    }
+
+    // Entrypoint
+    if (options.entrypoint) {
+        args.push('--entrypoint', options.entrypoint);
+    }
+
+    // Labels
+    if (options.labels) {
+        for (const [key, value] of Object.entries(options.labels)) {
+            args.push('--label', `${key}=${value}`);
+        }
+    }
+
+    // DNS
+    if (options.dns) {
+        for (const dns of options.dns) {
+            args.push('--dns', dns);
+        }
+    }
+    if (options.dnsSearch) {
+        for (const search of options.dnsSearch) {
+            args.push('--dns-search', search);
+        }
+    }
+
+    // Apple-specific options
+    if (options.rosetta) {
+        args.push('--rosetta');
+    }
+    if (options.ssh) {
+        args.push('--ssh');
+    }
+
+    // Image
+    args.push(options.image);
+
+    // Command
+    if (options.cmd) {
+        args.push(...options.cmd);
+    }
+
+    return args;
+}
+
+/**
+ * Adjust run options for a run attached to a terminal
+ */
+export function terminalRunOptions(options: RunContainerOptions): RunContainerOptions {
+    return {
+        ...options,
+        detach: false,
+        interactive: options.interactive ?? true,
+        tty: options.tty ?? true
+    };
+}
+
+/**
+ * Quote an argument for display in a POSIX shell command line
+ */
+export function quoteShellArg(arg: string): string {
+    if (arg.length > 0 && /^[\w@%+=:,./-]+$/.test(arg)) {
+        return arg;
+    }
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format an executable and its arguments as a copyable shell command line
+ */
+export function formatCommandLine(executable: string, args: string[]): string {
+    return [executable, ...args].map(quoteShellArg).join(' ');
+}
+
+/**
+ * Split an image reference into repository and tag
+ * Format: "docker.io/library/nginx:latest" or "myimage:latest"
+ */
+export function parseImageReference(reference: string): { repository: string; tag: string } {
+    let repository = reference;
+    let tag = 'latest';
+
+    const lastColon = reference.lastIndexOf(':');
+    const lastSlash = reference.lastIndexOf('/');
+
+    // Check if there's a tag (colon after the last slash)
+    if (lastColon > lastSlash) {
+        repository = reference.substring(0, lastColon);
+        tag = reference.substring(lastColon + 1);
+    }
+
+    // Simplify docker.io/library/ prefix
+    if (repository.startsWith('docker.io/library/')) {
+        repository = repository.substring('docker.io/library/'.length);
+    } else if (repository.startsWith('docker.io/')) {
+        repository = repository.substring('docker.io/'.length);
+    }
+
+    return { repository, tag };
+}
+
 /**
  * Apple Containers CLI wrapper class
  */
@@ -36,8 +689,30 @@ export class ContainerCli implements vscode.Disposable {
     private _outputChannel: vscode.OutputChannel;
     private _config: ExtensionConfig;
     private _configChangeDisposable: vscode.Disposable;
+    private _onWillStopContainer = new vscode.EventEmitter<string>();
+    private _onDidChangeServiceState = new vscode.EventEmitter<SystemServiceState>();
+    private _serviceState = SystemServiceState.Unknown;
+    // Previous CPU time per container, to turn cumulative CPU time into a percentage
+    private _cpuSamples = new Map<string, CpuSample>();
+    // Containers paused with SIGSTOP, which the CLI keeps listing as running; only used without a state store
+    private _signalPaused = new Set<string>();
+    // Whether the CLI has pause and unpause verbs; unknown until first tried
+    private _nativePause: boolean | undefined;
 
-    constructor(outputChannel: vscode.OutputChannel) {
+    /**
+     * Fires with the container ID before a stop, kill or delete is issued
+     */
+    readonly onWillStopContainer = this._onWillStopContainer.event;
+
+    /**
+     * Fires when the observed system service state changes
+     */
+    readonly onDidChangeServiceState = this._onDidChangeServiceState.event;
+
+    /**
+     * @param state where containers paused by signal are remembered, so they still show as paused after a reload
+     */
+    constructor(outputChannel: vscode.OutputChannel, private readonly _state?: vscode.Memento) {
         this._outputChannel = outputChannel;
         this._config = this.loadConfig();
 
@@ -54,6 +729,8 @@ export class ContainerCli implements vscode.Disposable {
      */
     dispose(): void {
         this._configChangeDisposable.dispose();
+        this._onWillStopContainer.dispose();
+        this._onDidChangeServiceState.dispose();
     }
 
     /**
@@ -66,7 +743,16 @@ export class ContainerCli implements vscode.Disposable {
             refreshInterval: config.get<number>('refreshInterval', 5000),
             showStoppedContainers: config.get<boolean>('showStoppedContainers', true),
             defaultShell: config.get<string>('defaultShell', '/bin/sh'),
-            confirmBeforeDelete: config.get<boolean>('confirmBeforeDelete', true)
+            confirmBeforeDelete: config.get<boolean>('confirmBeforeDelete', true),
+            exitNotifications: config.get<'off' | 'watched' | 'all'>('exitNotifications', 'all'),
+            watchedContainers: config.get<string[]>('watchedContainers', []),
+            maxParallelOperations: config.get<number>('maxParallelOperations', 4),
+            containerGrouping: config.get<ContainerGrouping>('containerGrouping', ContainerGrouping.None),
+            groupingLabel: config.get<string>('groupingLabel', ''),
+            logTail: config.get<number>('logTail', 500),
+            showResourceUsage: config.get<boolean>('showResourceUsage', false),
+            resourceAlerts: config.get<ResourceAlertRule[]>('resourceAlerts', []),
+            resourceAlertsInBackground: config.get<boolean>('resourceAlertsInBackground', false)
         };
     }
 
@@ -78,10 +764,19 @@ export class ContainerCli implements vscode.Disposable {
     }
 
     /**
-     * Execute a container CLI command
-     * Uses execFile to avoid shell injection vulnerabilities
+     * Execute a container CLI command and track the system service state
      */
     private async execute<T>(args: string[], parseJson = false): Promise<CliResult<T>> {
+        const result = await this.invoke<T>(args, parseJson);
+        this.trackServiceState(args, result);
+        return result;
+    }
+
+    /**
+     * Run a container CLI command with buffered output
+     * Uses execFile to avoid shell injection vulnerabilities
+     */
+    private async invoke<T>(args: string[], parseJson: boolean): Promise<CliResult<T>> {
         const cliPath = this._config.containerPath;
         this._outputChannel.appendLine(`[CMD] ${cliPath} ${args.join(' ')}`);
 
@@ -89,7 +784,7 @@ export class ContainerCli implements vscode.Disposable {
             // execFile doesn't spawn a shell, preventing command injection
             const { stdout, stderr } = await execFileAsync(cliPath, args, {
                 maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-                timeout: 60000 // 60 second timeout
+                timeout: EXECUTE_TIMEOUT_MS
             });
 
             if (stderr) {
@@ -102,23 +797,202 @@ export class ContainerCli implements vscode.Disposable {
                     return { success: true, data, exitCode: 0 };
                 } catch (jsonError) {
                     this._outputChannel.appendLine(`[JSON ERROR] Failed to parse: ${stdout}`);
-                    return { success: false, error: 'Failed to parse JSON output', exitCode: 0 };
+                    const error = 'Failed to parse JSON output';
+                    return {
+                        success: false,
+                        error,
+                        cliError: { kind: CliErrorKind.ParseError, message: error, output: stdout },
+                        exitCode: 0
+                    };
                 }
             }
 
             return { success: true, data: stdout as T, exitCode: 0 };
         } catch (error) {
-            const err = error as { message: string; code?: number; stderr?: string };
+            const err = error as { message: string; code?: number | string; stderr?: string; killed?: boolean; signal?: string };
             const errorMessage = err.stderr || err.message;
+            const exitCode = typeof err.code === 'number' ? err.code : 1;
             this._outputChannel.appendLine(`[ERROR] ${errorMessage}`);
             return {
                 success: false,
                 error: errorMessage,
-                exitCode: err.code || 1
+                cliError: classifyCliError({
+                    message: errorMessage,
+                    exitCode,
+                    cliPath,
+                    errno: typeof err.code === 'string' ? err.code : undefined,
+                    // execFile kills the process with SIGTERM when the timeout elapses
+                    timedOut: err.killed === true && err.signal === 'SIGTERM',
+                    timeoutMs: EXECUTE_TIMEOUT_MS
+                }),
+                exitCode
             };
         }
     }
 
+    /**
+     * Current state of the container system service, as last observed
+     */
+    get serviceState(): SystemServiceState {
+        return this._serviceState;
+    }
+
+    /**
+     * Infer the system service state from a command result
+     * `--version` works without the service, so it only tells us the CLI exists
+     */
+    private trackServiceState(args: string[], result: CliResult<unknown>): void {
+        let state: SystemServiceState | undefined;
+        if (result.cliError?.kind === CliErrorKind.NotInstalled) {
+            state = SystemServiceState.NotInstalled;
+        } else if (result.cliError?.kind === CliErrorKind.ServiceNotRunning) {
+            state = SystemServiceState.Stopped;
+        } else if (args[0] === '--version') {
+            state = this._serviceState === SystemServiceState.NotInstalled ? SystemServiceState.Unknown : undefined;
+        } else if (result.success || result.cliError?.kind === CliErrorKind.ParseError) {
+            state = SystemServiceState.Running;
+        }
+
+        if (state !== undefined && state !== this._serviceState) {
+            this._serviceState = state;
+            this._onDidChangeServiceState.fire(state);
+        }
+    }
+
+    /**
+     * Spawn a container CLI command and stream its output line by line
+     * Unlike execute, output is not buffered and there is no default timeout
+     */
+    stream(args: string[], options: StreamOptions = {}): CliProcess {
+        const cliPath = this._config.containerPath;
+        this._outputChannel.appendLine(`[STREAM] ${cliPath} ${args.join(' ')}`);
+
+        const onDidOutputLine = new vscode.EventEmitter<CliOutputLine>();
+        const stderrTail: string[] = [];
+        let cancelled = false;
+        let timedOut = false;
+
+        // spawn without a shell, like execFile, to avoid injection
+        const child = spawn(cliPath, args, {
+            stdio: [options.input !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe']
+        });
+
+        const kill = () => {
+            if (child.exitCode === null && !child.killed) {
+                child.kill('SIGTERM');
+            }
+        };
+
+        const emitLines = (stream: 'stdout' | 'stderr', lines: string[]) => {
+            for (const text of lines) {
+                if (stream === 'stderr') {
+                    stderrTail.push(text);
+                    if (stderrTail.length > STDERR_TAIL_LINES) {
+                        stderrTail.shift();
+                    }
+                }
+                onDidOutputLine.fire({ stream, text });
+            }
+        };
+
+        const stdoutLines = new LineBuffer();
+        const stderrLines = new LineBuffer();
+        child.stdout?.setEncoding('utf8');
+        child.stderr?.setEncoding('utf8');
+        child.stdout?.on('data', (chunk: string) => emitLines('stdout', stdoutLines.push(chunk)));
+        child.stderr?.on('data', (chunk: string) => emitLines('stderr', stderrLines.push(chunk)));
+
+        if (child.stdin && options.input !== undefined) {
+            // Ignore EPIPE if the process exits before reading its input
+            child.stdin.on('error', () => undefined);
+            child.stdin.end(options.input);
+        }
+
+        const cancelListener = options.token?.onCancellationRequested(() => {
+            cancelled = true;
+            kill();
+        });
+
+        const timer = options.timeout
+            ? setTimeout(() => {
+                timedOut = true;
+                kill();
+            }, options.timeout)
+            : undefined;
+
+        const completion = new Promise<CliProcessResult>((resolve) => {
+            let settled = false;
+            const finish = (result: CliProcessResult) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                cancelListener?.dispose();
+                emitLines('stdout', stdoutLines.flush());
+                emitLines('stderr', stderrLines.flush());
+                if (!result.success) {
+                    this._outputChannel.appendLine(`[ERROR] ${result.error}`);
+                }
+                onDidOutputLine.dispose();
+                this.trackServiceState(args, result);
+                resolve(result);
+            };
+
+            child.on('error', (error: NodeJS.ErrnoException) => {
+                finish({
+                    success: false,
+                    error: error.message,
+                    cliError: classifyCliError({
+                        message: error.message,
+                        exitCode: 1,
+                        cliPath,
+                        errno: error.code
+                    }),
+                    exitCode: 1,
+                    cancelled,
+                    timedOut
+                });
+            });
+
+            child.on('close', (code, signal) => {
+                const exitCode = code ?? 1;
+                let error: string | undefined;
+                if (timedOut) {
+                    error = `Command timed out after ${options.timeout}ms`;
+                } else if (cancelled) {
+                    error = 'Command cancelled';
+                } else if (exitCode !== 0) {
+                    error = stderrTail.join('\n') || `Command exited with ${signal ? `signal ${signal}` : `code ${exitCode}`}`;
+                }
+                finish({
+                    success: !error,
+                    error,
+                    cliError: error
+                        ? classifyCliError({ message: error, exitCode, cliPath, cancelled, timedOut, timeoutMs: options.timeout })
+                        : undefined,
+                    exitCode,
+                    cancelled,
+                    timedOut
+                });
+            });
+        });
+
+        // Make sure an already-cancelled token stops the process immediately
+        if (options.token?.isCancellationRequested) {
+            cancelled = true;
+            kill();
+        }
+
+        return {
+            onDidOutputLine: onDidOutputLine.event,
+            completion,
+            kill,
+            dispose: kill
+        };
+    }
 
     /**
      * Check if the container CLI is available
@@ -147,42 +1021,13 @@ export class ContainerCli implements vscode.Disposable {
     private parseRawContainer(raw: Record<string, unknown>): Container {
         const config = raw.configuration as Record<string, unknown> || {};
         const imageInfo = config.image as Record<string, unknown> || {};
-        const publishedPorts = config.publishedPorts as Array<Record<string, unknown>> || [];
-
-        // Parse ports
-        const ports = publishedPorts.map(p => ({
-            hostIp: p.hostAddress as string || undefined,
-            hostPort: p.hostPort as number,
-            containerPort: p.containerPort as number,
-            protocol: (p.proto as 'tcp' | 'udp') || 'tcp'
-        }));
-
-        // Get status - normalize to our enum
-        const rawStatus = (raw.status as string || '').toLowerCase();
-        let status: ContainerStatus;
-        switch (rawStatus) {
-            case 'running':
-                status = ContainerStatus.Running;
-                break;
-            case 'stopped':
-            case 'exited':
-                status = ContainerStatus.Stopped;
-                break;
-            case 'created':
-                status = ContainerStatus.Created;
-                break;
-            case 'paused':
-                status = ContainerStatus.Paused;
-                break;
-            default:
-                status = ContainerStatus.Unknown;
-        }
+        const ports = parsePublishedPorts(config.publishedPorts);
 
         return {
             id: config.id as string || '',
             name: config.id as string || '', // Apple Containers uses id as name
             image: imageInfo.reference as string || 'unknown',
-            status,
+            status: parseContainerStatus(raw.status),
             created: '',
             ports: ports.length > 0 ? ports : undefined,
             labels: config.labels as Record<string, string> || undefined
@@ -201,17 +1046,39 @@ export class ContainerCli implements vscode.Disposable {
         const result = await this.execute<Array<Record<string, unknown>>>(args, true);
         if (result.success && result.data) {
             const rawData = Array.isArray(result.data) ? result.data : [];
-            return rawData.map(raw => this.parseRawContainer(raw));
+            return this.applySignalPause(rawData.map(raw => this.parseRawContainer(raw)));
         }
         return [];
     }
 
+    /**
+     * Report containers paused with SIGSTOP as paused, and forget them once they are no longer running
+     */
+    private applySignalPause(containers: Container[]): Container[] {
+        const running = new Set(containers.filter(c => c.status === ContainerStatus.Running).map(c => c.id));
+        const signalPaused = this.loadSignalPaused();
+        const stale = Array.from(signalPaused).filter(id => !running.has(id));
+        if (stale.length > 0) {
+            stale.forEach(id => signalPaused.delete(id));
+            this.saveSignalPaused(signalPaused);
+        }
+        return containers.map(c => signalPaused.has(c.id) ? { ...c, status: ContainerStatus.Paused } : c);
+    }
+
     /**
      * Inspect a container
      */
     async inspectContainer(id: string): Promise<ContainerInspect | undefined> {
-        const result = await this.execute<ContainerInspect[]>(['inspect', '--format', 'json', id], true);
-        if (result.success && result.data && result.data.length > 0) {
+        const raw = await this.inspectContainerJson(id);
+        return raw ? parseContainerInspect(raw) : undefined;
+    }
+
+    /**
+     * Inspect a container and return the CLI's JSON unchanged, for display
+     */
+    async inspectContainerJson(id: string): Promise<Record<string, unknown> | undefined> {
+        const result = await this.execute<Array<Record<string, unknown>>>(['inspect', '--format', 'json', id], true);
+        if (result.success && Array.isArray(result.data) && result.data.length > 0) {
             return result.data[0];
         }
         return undefined;
@@ -228,6 +1095,11 @@ export class ContainerCli implements vscode.Disposable {
      * Stop a container
      */
     async stopContainer(id: string, timeout?: number): Promise<CliResult<string>> {
+        // A stopped process only acts on SIGTERM once it is continued
+        if (this.loadSignalPaused().has(id)) {
+            await this.unpauseContainer(id);
+        }
+        this._onWillStopContainer.fire(id);
         const args = ['stop'];
         if (timeout !== undefined) {
             args.push('--time', timeout.toString());
@@ -240,6 +1112,9 @@ export class ContainerCli implements vscode.Disposable {
      * Kill a container
      */
     async killContainer(id: string, signal?: string): Promise<CliResult<string>> {
+        if (!signal || !NON_TERMINATING_SIGNALS.has(signal.toUpperCase())) {
+            this._onWillStopContainer.fire(id);
+        }
         const args = ['kill'];
         if (signal) {
             args.push('--signal', signal);
@@ -248,10 +1123,68 @@ export class ContainerCli implements vscode.Disposable {
         return this.execute<string>(args);
     }
 
+    /**
+     * Pause all processes of a container
+     * Uses `container pause` when the CLI has it, otherwise stops the container's process with SIGSTOP
+     */
+    async pauseContainer(id: string): Promise<CliResult<string>> {
+        return this.setPaused(id, true);
+    }
+
+    /**
+     * Resume a paused container
+     */
+    async unpauseContainer(id: string): Promise<CliResult<string>> {
+        return this.setPaused(id, false);
+    }
+
+    private async setPaused(id: string, paused: boolean): Promise<CliResult<string>> {
+        const verb = paused ? 'pause' : 'unpause';
+        // A container paused by signal must also be resumed by signal
+        if (this._nativePause !== false && !this.loadSignalPaused().has(id)) {
+            const result = await this.execute<string>([verb, id]);
+            if (result.success || !isUnsupportedCommand(result.error ?? '')) {
+                this._nativePause = result.success || this._nativePause;
+                return result;
+            }
+            this._nativePause = false;
+            this._outputChannel.appendLine(`[INFO] "${verb}" is not supported by this CLI; sending ${paused ? 'SIGSTOP' : 'SIGCONT'} instead`);
+        }
+
+        const result = await this.killContainer(id, paused ? 'SIGSTOP' : 'SIGCONT');
+        if (result.success) {
+            // Re-read so pauses made in other windows since are kept
+            const signalPaused = this.loadSignalPaused();
+            if (paused) {
+                signalPaused.add(id);
+            } else {
+                signalPaused.delete(id);
+            }
+            this.saveSignalPaused(signalPaused);
+        }
+        return result;
+    }
+
+    /**
+     * Containers paused with SIGSTOP, read afresh because other windows share the state
+     */
+    private loadSignalPaused(): Set<string> {
+        return this._state ? new Set(this._state.get<string[]>(SIGNAL_PAUSED_KEY, [])) : new Set(this._signalPaused);
+    }
+
+    private saveSignalPaused(ids: Set<string>): void {
+        if (this._state) {
+            void this._state.update(SIGNAL_PAUSED_KEY, Array.from(ids));
+        } else {
+            this._signalPaused = ids;
+        }
+    }
+
     /**
      * Delete a container
      */
     async deleteContainer(id: string, force = false): Promise<CliResult<string>> {
+        this._onWillStopContainer.fire(id);
         const args = ['delete'];
         if (force) {
             args.push('--force');
@@ -261,179 +1194,276 @@ export class ContainerCli implements vscode.Disposable {
     }
 
     /**
-     * Run a new container
+     * Run a new container in the background and return its ID
      */
     async runContainer(options: RunContainerOptions): Promise<CliResult<string>> {
-        const args = ['run'];
+        return this.execute<string>(buildRunArgs(options));
+    }
 
-        // Management options
-        if (options.name) {
-            args.push('--name', options.name);
-        }
-        if (options.detach) {
-            args.push('--detach');
-        }
-        if (options.remove) {
-            args.push('--rm');
-        }
-        if (options.interactive) {
-            args.push('--interactive');
-        }
-        if (options.tty) {
-            args.push('--tty');
-        }
+    /**
+     * Run a new container attached to a terminal
+     * Uses the same arguments as runContainer, except that the container is never detached
+     * and is interactive with a TTY unless the options say otherwise
+     */
+    runContainerInTerminal(options: RunContainerOptions): vscode.Terminal {
+        const terminal = vscode.window.createTerminal({
+            name: `Run: ${options.name || options.image}`,
+            shellPath: this._config.containerPath,
+            shellArgs: buildRunArgs(terminalRunOptions(options))
+        });
+        terminal.show();
+        return terminal;
+    }
 
-        // Environment
-        if (options.env) {
-            for (const [key, value] of Object.entries(options.env)) {
-                args.push('--env', `${key}=${value}`);
-            }
-        }
-        if (options.envFile) {
-            args.push('--env-file', options.envFile);
-        }
+    /**
+     * Create a terminal for attaching to a container
+     */
+    attachContainer(id: string, shell?: string): vscode.Terminal {
+        const shellCmd = shell || this._config.defaultShell;
+        const terminal = vscode.window.createTerminal({
+            name: `Container: ${id.substring(0, 12)}`,
+            shellPath: this._config.containerPath,
+            shellArgs: ['exec', '-it', id, shellCmd]
+        });
+        terminal.show();
+        return terminal;
+    }
 
-        // Ports
-        if (options.ports) {
-            for (const port of options.ports) {
-                let portSpec = '';
-                if (port.hostIp) {
-                    portSpec += `${port.hostIp}:`;
-                }
-                portSpec += `${port.host}:${port.container}`;
-                if (port.protocol && port.protocol !== 'tcp') {
-                    portSpec += `/${port.protocol}`;
+    /**
+     * Run a command in a running container and capture its output
+     * stdout is kept as bytes so file contents survive unchanged; success means exit code 0
+     */
+    execInContainer(id: string, command: string[], options: ExecProcessOptions = {}): Promise<CliResult<ExecOutput>> {
+        const cliPath = this._config.containerPath;
+        const args = buildExecArgs(id, command, options);
+        this._outputChannel.appendLine(`[EXEC] ${cliPath} ${args.join(' ')}`);
+
+        return new Promise((resolve) => {
+            const stdout: Buffer[] = [];
+            const stderr: Buffer[] = [];
+            let cancelled = false;
+            let timedOut = false;
+            let settled = false;
+
+            const child = spawn(cliPath, args, {
+                stdio: [options.input !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe']
+            });
+            const kill = () => {
+                if (child.exitCode === null && !child.killed) {
+                    child.kill('SIGTERM');
                 }
-                args.push('--publish', portSpec);
+            };
+
+            child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+            child.stderr?.on('data', (chunk: Buffer) => stderr.push(chunk));
+            if (child.stdin && options.input !== undefined) {
+                // Ignore EPIPE if the command exits before reading its input
+                child.stdin.on('error', () => undefined);
+                child.stdin.end(options.input);
             }
-        }
 
-        // Volumes
-        if (options.volumes) {
-            for (const vol of options.volumes) {
-                let volSpec = `${vol.source}:${vol.target}`;
-                if (vol.readonly) {
-                    volSpec += ':ro';
+            const cancelListener = options.token?.onCancellationRequested(() => {
+                cancelled = true;
+                kill();
+            });
+            const timer = options.timeout
+                ? setTimeout(() => {
+                    timedOut = true;
+                    kill();
+                }, options.timeout)
+                : undefined;
+
+            const finish = (exitCode: number, error: string | undefined, errno?: string) => {
+                if (settled) {
+                    return;
                 }
-                args.push('--volume', volSpec);
-            }
-        }
+                settled = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                cancelListener?.dispose();
+
+                const output: ExecOutput = { stdout: Buffer.concat(stdout), stderr: Buffer.concat(stderr).toString('utf8') };
+                const result: CliResult<ExecOutput> = {
+                    success: !error,
+                    data: output,
+                    error,
+                    cliError: error
+                        ? classifyCliError({ message: error, exitCode, cliPath, errno, cancelled, timedOut, timeoutMs: options.timeout })
+                        : undefined,
+                    exitCode
+                };
+                if (error) {
+                    this._outputChannel.appendLine(`[ERROR] ${error}`);
+                }
+                this.trackServiceState(args, result);
+                resolve(result);
+            };
 
-        // Mounts
-        if (options.mounts) {
-            for (const mount of options.mounts) {
-                let mountSpec = `type=${mount.type},source=${mount.source},target=${mount.target}`;
-                if (mount.readonly) {
-                    mountSpec += ',readonly';
+            child.on('error', (error: NodeJS.ErrnoException) => finish(1, error.message, error.code));
+            child.on('close', (code, signal) => {
+                const exitCode = code ?? 1;
+                let error: string | undefined;
+                if (timedOut) {
+                    error = `Command timed out after ${options.timeout}ms`;
+                } else if (cancelled) {
+                    error = 'Command cancelled';
+                } else if (exitCode !== 0) {
+                    error = Buffer.concat(stderr).toString('utf8').trim() ||
+                        `Command exited with ${signal ? `signal ${signal}` : `code ${exitCode}`}`;
                 }
-                args.push('--mount', mountSpec);
-            }
-        }
+                finish(exitCode, error);
+            });
 
-        // Network
-        if (options.network) {
-            args.push('--network', options.network);
-        }
+            if (options.token?.isCancellationRequested) {
+                cancelled = true;
+                kill();
+            }
+        });
+    }
 
-        // Process options
-        if (options.workdir) {
-            args.push('--workdir', options.workdir);
-        }
-        if (options.user) {
-            args.push('--user', options.user);
-        }
+    /**
+     * Copy a host file or directory into a directory of a running container
+     * The source is streamed as a tar archive into `tar -x` running in the container
+     */
+    copyToContainer(id: string, source: string, destination: string, options: CopyOptions = {}): Promise<CliResult<void>> {
+        return this.pipeProcesses(
+            // Keep macOS from adding AppleDouble (._*) entries for extended attributes
+            { command: 'tar', args: tarCreateArgs(source), env: { ...process.env, COPYFILE_DISABLE: '1' } },
+            { command: this._config.containerPath, args: ['exec', '--interactive', id, 'tar', ...tarExtractArgs(destination)] },
+            options
+        );
+    }
 
-        // Resource limits
-        if (options.cpus) {
-            args.push('--cpus', options.cpus.toString());
-        }
-        if (options.memory) {
-            args.push('--memory', options.memory);
-        }
+    /**
+     * Copy a file or directory from a running container into a host directory
+     */
+    copyFromContainer(id: string, source: string, destination: string, options: CopyOptions = {}): Promise<CliResult<void>> {
+        return this.pipeProcesses(
+            { command: this._config.containerPath, args: ['exec', id, 'tar', ...tarCreateArgs(source)] },
+            { command: 'tar', args: tarExtractArgs(destination) },
+            options
+        );
+    }
 
-        // Platform
-        if (options.platform) {
-            args.push('--platform', options.platform);
-        }
+    /**
+     * Pipe the stdout of one process into the stdin of another; succeeds when both exit with 0
+     */
+    private pipeProcesses(producer: PipeEnd, consumer: PipeEnd, options: CopyOptions): Promise<CliResult<void>> {
+        this._outputChannel.appendLine(
+            `[EXEC] ${formatCommandLine(producer.command, producer.args)} | ${formatCommandLine(consumer.command, consumer.args)}`
+        );
+
+        return new Promise((resolve) => {
+            const ends = [producer, consumer].map(end => ({
+                end,
+                child: spawn(end.command, end.args, { env: end.env, stdio: ['pipe', 'pipe', 'pipe'] }),
+                stderr: [] as Buffer[],
+                exitCode: undefined as number | undefined,
+                error: undefined as NodeJS.ErrnoException | undefined
+            }));
+            const [source, sink] = ends;
+            let cancelled = false;
+            let settled = false;
+            let bytes = 0;
+
+            const killAll = () => {
+                for (const { child } of ends) {
+                    if (child.exitCode === null && !child.killed) {
+                        child.kill('SIGTERM');
+                    }
+                }
+            };
+            const cancelListener = options.token?.onCancellationRequested(() => {
+                cancelled = true;
+                killAll();
+            });
+            if (options.token?.isCancellationRequested) {
+                cancelled = true;
+                killAll();
+            }
 
-        // Entrypoint
-        if (options.entrypoint) {
-            args.push('--entrypoint', options.entrypoint);
-        }
+            const finish = () => {
+                if (settled || ends.some(e => e.exitCode === undefined)) {
+                    return;
+                }
+                settled = true;
+                cancelListener?.dispose();
+
+                // Report the side that failed first in the pipeline, preferring a spawn error
+                const failed = ends.find(e => e.error) ?? ends.find(e => e.exitCode !== 0);
+                let error: string | undefined;
+                if (cancelled) {
+                    error = 'Copy cancelled';
+                } else if (failed) {
+                    error = failed.error?.message
+                        ?? (Buffer.concat(failed.stderr).toString('utf8').trim() || `${failed.end.command} exited with code ${failed.exitCode}`);
+                }
+                const exitCode = failed?.exitCode ?? 0;
+                if (error) {
+                    this._outputChannel.appendLine(`[ERROR] ${error}`);
+                }
+                resolve({
+                    success: !error,
+                    error,
+                    cliError: error
+                        ? classifyCliError({ message: error, exitCode, cliPath: failed?.end.command ?? consumer.command, errno: failed?.error?.code, cancelled })
+                        : undefined,
+                    exitCode
+                });
+            };
 
-        // Labels
-        if (options.labels) {
-            for (const [key, value] of Object.entries(options.labels)) {
-                args.push('--label', `${key}=${value}`);
+            for (const entry of ends) {
+                entry.child.stderr?.on('data', (chunk: Buffer) => entry.stderr.push(chunk));
+                entry.child.on('error', (error: NodeJS.ErrnoException) => {
+                    entry.error = error;
+                    entry.exitCode = 1;
+                    killAll();
+                    finish();
+                });
+                entry.child.on('close', (code) => {
+                    entry.exitCode = entry.exitCode ?? code ?? 1;
+                    // A consumer that gave up leaves the producer blocked on a full pipe
+                    if (entry.exitCode !== 0) {
+                        killAll();
+                    }
+                    finish();
+                });
             }
-        }
 
-        // DNS
-        if (options.dns) {
-            for (const dns of options.dns) {
-                args.push('--dns', dns);
-            }
-        }
-        if (options.dnsSearch) {
-            for (const search of options.dnsSearch) {
-                args.push('--dns-search', search);
+            source.child.stdin?.end();
+            // Ignore EPIPE when the consumer exits early; its exit code reports the failure
+            sink.child.stdin?.on('error', () => undefined);
+            source.child.stdout?.on('data', (chunk: Buffer) => {
+                bytes += chunk.length;
+                options.onProgress?.(bytes);
+            });
+            if (source.child.stdout && sink.child.stdin) {
+                source.child.stdout.pipe(sink.child.stdin);
             }
-        }
-
-        // Apple-specific options
-        if (options.rosetta) {
-            args.push('--rosetta');
-        }
-        if (options.ssh) {
-            args.push('--ssh');
-        }
-
-        // Image
-        args.push(options.image);
 
-        // Command
-        if (options.cmd) {
-            args.push(...options.cmd);
-        }
-
-        return this.execute<string>(args);
-    }
-
-    /**
-     * Create a terminal for attaching to a container
-     */
-    attachContainer(id: string, shell?: string): vscode.Terminal {
-        const shellCmd = shell || this._config.defaultShell;
-        const terminal = vscode.window.createTerminal({
-            name: `Container: ${id.substring(0, 12)}`,
-            shellPath: this._config.containerPath,
-            shellArgs: ['exec', '-it', id, shellCmd]
         });
-        terminal.show();
-        return terminal;
     }
 
     /**
-     * Create a terminal for viewing container logs
+     * Stream container logs line by line
+     * @param options.tail Number of lines from the end to start with; all lines when undefined
      */
-    viewLogs(id: string, follow = true): vscode.Terminal {
+    streamLogs(id: string, options: { follow?: boolean; tail?: number } = {}, token?: vscode.CancellationToken): CliProcess {
         const args = ['logs'];
-        if (follow) {
+        if (options.follow) {
             args.push('--follow');
         }
+        if (options.tail !== undefined) {
+            args.push('-n', options.tail.toString());
+        }
         args.push(id);
-
-        const terminal = vscode.window.createTerminal({
-            name: `Logs: ${id.substring(0, 12)}`,
-            shellPath: this._config.containerPath,
-            shellArgs: args
-        });
-        terminal.show();
-        return terminal;
+        return this.stream(args, { token });
     }
 
     /**
      * Get container stats
+     * CPU percentages reported as cumulative CPU time are relative to the previous call
      */
     async getStats(id?: string): Promise<ContainerStats[]> {
         const args = ['stats', '--format', 'json', '--no-stream'];
@@ -441,11 +1471,19 @@ export class ContainerCli implements vscode.Disposable {
             args.push(id);
         }
 
-        const result = await this.execute<ContainerStats[]>(args, true);
-        if (result.success && result.data) {
-            return Array.isArray(result.data) ? result.data : [];
+        const result = await this.execute<Record<string, unknown>[]>(args, true);
+        if (!result.success || !Array.isArray(result.data)) {
+            return [];
         }
-        return [];
+
+        const now = Date.now();
+        return result.data.map((raw) => {
+            const stats = parseRawStats(raw, this._cpuSamples.get(raw.id as string), now);
+            if (stats.cpuUsageUsec !== undefined) {
+                this._cpuSamples.set(stats.id, { cpuUsageUsec: stats.cpuUsageUsec, time: now });
+            }
+            return stats;
+        });
     }
 
     // ==================== Image Operations ====================
@@ -457,49 +1495,20 @@ export class ContainerCli implements vscode.Disposable {
         const reference = raw.reference as string || '';
         const descriptor = raw.descriptor as Record<string, unknown> || {};
 
-        // Parse reference into repository and tag
-        // Format: "docker.io/library/nginx:latest" or "myimage:latest"
-        let repository = reference;
-        let tag = 'latest';
-
-        const lastColon = reference.lastIndexOf(':');
-        const lastSlash = reference.lastIndexOf('/');
-
-        // Check if there's a tag (colon after the last slash)
-        if (lastColon > lastSlash) {
-            repository = reference.substring(0, lastColon);
-            tag = reference.substring(lastColon + 1);
-        }
-
-        // Simplify docker.io/library/ prefix
-        if (repository.startsWith('docker.io/library/')) {
-            repository = repository.substring('docker.io/library/'.length);
-        } else if (repository.startsWith('docker.io/')) {
-            repository = repository.substring('docker.io/'.length);
-        }
+        const { repository, tag } = parseImageReference(reference);
 
         return {
             id: descriptor.digest as string || '',
             repository,
             tag,
             digest: descriptor.digest as string || undefined,
-            size: this.formatSize(descriptor.size as number || 0),
+            size: formatSize(descriptor.size as number || 0),
             sizeBytes: descriptor.size as number || 0,
             created: '',
             labels: undefined
         };
     }
 
-    /**
-     * Format bytes to human readable size using IEC units (1024-based)
-     */
-    private formatSize(bytes: number): string {
-        if (bytes === 0) { return '0 B'; }
-        const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(1024));
-        return `${(bytes / Math.pow(1024, i)).toFixed(1)} ${units[i]}`;
-    }
-
     /**
      * List images
      */
@@ -524,22 +1533,16 @@ export class ContainerCli implements vscode.Disposable {
     }
 
     /**
-     * Pull an image
+     * Pull an image, streaming the CLI progress output
      */
-    pullImage(options: PullImageOptions): vscode.Terminal {
+    pullImage(options: PullImageOptions, token?: vscode.CancellationToken): CliProcess {
         const args = ['image', 'pull'];
         if (options.platform) {
             args.push('--platform', options.platform);
         }
         args.push(options.image);
 
-        const terminal = vscode.window.createTerminal({
-            name: `Pull: ${options.image}`,
-            shellPath: this._config.containerPath,
-            shellArgs: args
-        });
-        terminal.show();
-        return terminal;
+        return this.stream(args, { token });
     }
 
     /**
@@ -732,6 +1735,57 @@ export class ContainerCli implements vscode.Disposable {
 
     // ==================== System Operations ====================
 
+    /**
+     * Start the container system service
+     * Streamed with stdin closed, so the first-run kernel prompt is answered with --enable-kernel-install
+     */
+    async startSystem(token?: vscode.CancellationToken): Promise<CliProcessResult> {
+        const options = { token, timeout: SYSTEM_COMMAND_TIMEOUT_MS };
+        const result = await this.stream(['system', 'start', '--enable-kernel-install'], options).completion;
+        // Releases without the flag have no prompt either
+        if (!result.success && !result.cancelled && /unknown option|unexpected argument/i.test(result.error ?? '')) {
+            return this.stream(['system', 'start'], options).completion;
+        }
+        return result;
+    }
+
+    /**
+     * Stop the container system service
+     */
+    async stopSystem(token?: vscode.CancellationToken): Promise<CliProcessResult> {
+        const result = await this.stream(['system', 'stop'], { token, timeout: SYSTEM_COMMAND_TIMEOUT_MS }).completion;
+        if (result.success && this._serviceState !== SystemServiceState.Stopped) {
+            this._serviceState = SystemServiceState.Stopped;
+            this._onDidChangeServiceState.fire(this._serviceState);
+        }
+        return result;
+    }
+
+    /**
+     * Query the container system service state
+     */
+    async getSystemStatus(): Promise<SystemServiceState> {
+        const result = await this.execute<string>(['system', 'status']);
+        if (result.success) {
+            return SystemServiceState.Running;
+        }
+        switch (result.cliError?.kind) {
+            case CliErrorKind.NotInstalled:
+                return SystemServiceState.NotInstalled;
+            case CliErrorKind.ServiceNotRunning:
+                return SystemServiceState.Stopped;
+            default:
+                return SystemServiceState.Unknown;
+        }
+    }
+
+    /**
+     * Reveal the output channel with the CLI log
+     */
+    showOutput(): void {
+        this._outputChannel.show(true);
+    }
+
     /**
      * Get system information
      */
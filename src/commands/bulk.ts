@@ -0,0 +1,143 @@
+/**
+ * Bulk Operations
+ * Runs a command over a multi-selection with limited parallelism
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli } from '../cli';
+import { CliResult, CliErrorKind } from '../types';
+
+/**
+ * Description of an operation applied to every selected item
+ */
+export interface BulkOperation<T> {
+    /** Progress notification title, e.g. "Stopping containers" */
+    title: string;
+    /** Verb used in failure messages, e.g. "stop" */
+    action: string;
+    /** Past tense used in the summary, e.g. "stopped" */
+    pastTense: string;
+    /** Singular resource noun, e.g. "container" */
+    noun: string;
+    label: (item: T) => string;
+    run: (item: T) => Promise<CliResult<unknown>>;
+    /** Retry items that failed because they are in use, with --force */
+    force?: (items: T[]) => Thenable<unknown>;
+}
+
+/**
+ * An item the operation failed for
+ */
+export interface BulkFailure<T> {
+    item: T;
+    result: CliResult<unknown>;
+}
+
+/**
+ * Combine the clicked item and the tree selection passed to a context menu command
+ * Only items accepted by the type guard are kept, so group or detail nodes are ignored
+ */
+export function resolveSelection<T>(
+    item: unknown,
+    selected: unknown,
+    isItem: (value: unknown) => value is T
+): T[] {
+    const candidates = Array.isArray(selected) && selected.length > 0 ? selected : [item];
+    return candidates.filter(isItem);
+}
+
+/**
+ * Map over items with at most `limit` promises in flight
+ * Items not yet started when the token is cancelled are skipped
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T) => Promise<R>,
+    token?: vscode.CancellationToken
+): Promise<Array<R | undefined>> {
+    const results: Array<R | undefined> = new Array(items.length).fill(undefined);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length && !token?.isCancellationRequested) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Run an operation over several items and summarise the outcome
+ * @returns the items that failed
+ */
+export async function runBulkOperation<T>(
+    cli: ContainerCli,
+    items: T[],
+    operation: BulkOperation<T>
+): Promise<BulkFailure<T>[]> {
+    // Callers filter the selection by status, which may leave nothing to do
+    if (items.length === 0) {
+        vscode.window.showInformationMessage(`No selected ${operation.noun}s to ${operation.action}`);
+        return [];
+    }
+
+    const failures: BulkFailure<T>[] = [];
+    let completed = 0;
+
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: `${operation.title} (${items.length})`,
+            cancellable: true
+        },
+        async (progress, token) => {
+            await mapWithConcurrency(items, cli.config.maxParallelOperations, async (item) => {
+                const result = await operation.run(item);
+                completed++;
+                if (!result.success) {
+                    failures.push({ item, result });
+                }
+                progress.report({
+                    message: `${completed}/${items.length} ${operation.label(item)}`,
+                    increment: 100 / items.length
+                });
+                return result;
+            }, token);
+        }
+    );
+
+    const succeeded = completed - failures.length;
+    const skipped = items.length - completed;
+    const plural = (count: number) => `${count} ${operation.noun}${count !== 1 ? 's' : ''}`;
+    const pastTense = operation.pastTense.charAt(0).toUpperCase() + operation.pastTense.slice(1);
+
+    if (failures.length === 0) {
+        const skippedText = skipped > 0 ? `, ${skipped} skipped after cancellation` : '';
+        vscode.window.showInformationMessage(`${pastTense} ${plural(succeeded)}${skippedText}`);
+        return failures;
+    }
+
+    const details = failures
+        .slice(0, 3)
+        .map(f => `${operation.label(f.item)} (${f.result.cliError?.message || f.result.error || 'unknown error'})`)
+        .join(', ');
+    const more = failures.length > 3 ? ` and ${failures.length - 3} more` : '';
+    const message = `${pastTense} ${succeeded} of ${plural(items.length)}. ` +
+        `Failed to ${operation.action} ${details}${more}`;
+
+    const inUse = failures.filter(f => f.result.cliError?.kind === CliErrorKind.InUse).map(f => f.item);
+    const actions = inUse.length > 0 && operation.force ? ['Force Delete', 'Show Output'] : ['Show Output'];
+
+    const choice = await vscode.window.showWarningMessage(message, ...actions);
+    if (choice === 'Force Delete' && operation.force) {
+        await operation.force(inUse);
+    } else if (choice === 'Show Output') {
+        cli.showOutput();
+    }
+    return failures;
+}
@@ -0,0 +1,88 @@
+/**
+ * CLI Error Handling
+ * Shows failed CLI results with remediation actions for each error kind
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli } from '../cli';
+import { CliResult, CliErrorKind, SystemServiceState } from '../types';
+
+/**
+ * Optional follow-up actions a command can offer for a failure
+ */
+export interface ErrorRemediation {
+    /** Run the operation again */
+    retry?: () => Thenable<unknown>;
+    /** Run the operation again with --force */
+    force?: () => Thenable<unknown>;
+}
+
+/**
+ * Show an error message for a failed CLI result
+ * @param action Lowercase description of what failed, e.g. "start container"
+ */
+export async function showCliError(
+    cli: ContainerCli,
+    action: string,
+    result: CliResult<unknown>,
+    remediation: ErrorRemediation = {}
+): Promise<void> {
+    const cliError = result.cliError;
+    const detail = cliError?.message || result.error || 'Unknown error';
+
+    // Cancellation was requested by the user, so there is nothing to report
+    if (cliError?.kind === CliErrorKind.Cancelled) {
+        return;
+    }
+
+    const actions: Array<[string, () => Thenable<unknown> | void]> = [];
+    let message = `Failed to ${action}: ${detail}`;
+
+    switch (cliError?.kind) {
+        case CliErrorKind.NotInstalled:
+            message = `Failed to ${action}: ${detail}. Install Apple Containers or set the CLI path.`;
+            actions.push(['Open Settings', () => vscode.commands.executeCommand(
+                'workbench.action.openSettings',
+                'appleContainers.containerPath'
+            )]);
+            break;
+        case CliErrorKind.ServiceNotRunning:
+            message = `Failed to ${action}: the container system service is not running.`;
+            actions.push(['Start System Service', async () => {
+                await vscode.commands.executeCommand('appleContainers.startSystem');
+                if (cli.serviceState === SystemServiceState.Running && remediation.retry) {
+                    await remediation.retry();
+                }
+            }]);
+            break;
+        case CliErrorKind.NotFound:
+            actions.push(['Refresh', () => vscode.commands.executeCommand('appleContainers.refresh')]);
+            break;
+        case CliErrorKind.InUse:
+            if (remediation.force) {
+                actions.push(['Force Delete', remediation.force]);
+            }
+            break;
+        case CliErrorKind.Timeout:
+            if (remediation.retry) {
+                actions.push(['Retry', remediation.retry]);
+            }
+            break;
+        case CliErrorKind.PermissionDenied:
+            actions.push(['Open Settings', () => vscode.commands.executeCommand(
+                'workbench.action.openSettings',
+                'appleContainers'
+            )]);
+            break;
+        default:
+            break;
+    }
+
+    actions.push(['Show Output', () => cli.showOutput()]);
+
+    const choice = await vscode.window.showErrorMessage(message, ...actions.map(([label]) => label));
+    const selected = actions.find(([label]) => label === choice);
+    if (selected) {
+        await selected[1]();
+    }
+}
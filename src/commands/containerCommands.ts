@@ -4,9 +4,18 @@
  */
 
 import * as vscode from 'vscode';
-import { ContainerCli } from '../cli';
-import { ContainersProvider, ContainerItem } from '../providers/containersProvider';
+import { ContainerCli, isContainerActive } from '../cli';
+import { ContainersProvider, ContainerItem, ContainerGroupItem, COMPOSE_PROJECT_LABEL } from '../providers/containersProvider';
+import { EnvVarItem, MountItem, PortItem, portHost } from '../providers/containerDetails';
 import { ImagesProvider, ImageItem } from '../providers/imagesProvider';
+import { probePortScheme, portUrl } from '../portProbe';
+import { ShellPreferenceStore, findShell, probeShells } from '../shellProbe';
+import { Container, ContainerGrouping, ContainerStatus, PortMapping, RunContainerOptions } from '../types';
+import { showCliError } from './cliErrors';
+import { resolveSelection, runBulkOperation } from './bulk';
+import { runContainerWizard } from './runWizard';
+
+const isContainerItem = (value: unknown): value is ContainerItem => value instanceof ContainerItem;
 
 /**
  * Register container commands
@@ -17,9 +26,63 @@ export function registerContainerCommands(
     containersProvider: ContainersProvider,
     _imagesProvider: ImagesProvider
 ): void {
+    const containerLabel = (item: ContainerItem) => item.container.name || item.container.id.substring(0, 12);
+
+    // Restart is a stop followed by a start, only if the stop succeeded
+    const restartContainer = async (containerId: string) => {
+        const stopResult = await cli.stopContainer(containerId);
+        if (!stopResult.success) {
+            return stopResult;
+        }
+        return cli.startContainer(containerId);
+    };
+
+    // Delete several containers with a single confirmation
+    const deleteContainers = async (items: ContainerItem[]) => {
+        if (cli.config.confirmBeforeDelete) {
+            const confirm = await vscode.window.showWarningMessage(
+                `Are you sure you want to delete ${items.length} containers?`,
+                { modal: true, detail: items.map(containerLabel).join('\n') },
+                'Delete'
+            );
+            if (confirm !== 'Delete') {
+                return;
+            }
+        }
+
+        const runDelete = async (targets: ContainerItem[], force: boolean): Promise<void> => {
+            await runBulkOperation(cli, targets, {
+                title: 'Deleting containers',
+                action: 'delete',
+                pastTense: 'deleted',
+                noun: 'container',
+                label: containerLabel,
+                run: (i) => cli.deleteContainer(i.container.id, force),
+                force: force ? undefined : (inUse) => runDelete(inUse, true)
+            });
+            await containersProvider.refresh();
+        };
+
+        await runDelete(items, false);
+    };
+
     // Start container
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.startContainer', async (item: ContainerItem) => {
+        vscode.commands.registerCommand('appleContainers.startContainer', async (item: ContainerItem, selected?: ContainerItem[]) => {
+            const items = resolveSelection(item, selected, isContainerItem);
+            if (items.length > 1) {
+                await runBulkOperation(cli, items.filter(i => !isContainerActive(i.container)), {
+                    title: 'Starting containers',
+                    action: 'start',
+                    pastTense: 'started',
+                    noun: 'container',
+                    label: containerLabel,
+                    run: (i) => cli.startContainer(i.container.id)
+                });
+                await containersProvider.refresh();
+                return;
+            }
+
             const containerId = item?.container?.id;
             if (!containerId) {
                 vscode.window.showErrorMessage('No container selected');
@@ -39,14 +102,30 @@ export function registerContainerCommands(
                 vscode.window.showInformationMessage(`Container started: ${item.container.name || containerId.substring(0, 12)}`);
                 await containersProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to start container: ${result.error}`);
+                await showCliError(cli, 'start container', result, {
+                    retry: () => vscode.commands.executeCommand('appleContainers.startContainer', item)
+                });
             }
         })
     );
 
     // Stop container
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.stopContainer', async (item: ContainerItem) => {
+        vscode.commands.registerCommand('appleContainers.stopContainer', async (item: ContainerItem, selected?: ContainerItem[]) => {
+            const items = resolveSelection(item, selected, isContainerItem);
+            if (items.length > 1) {
+                await runBulkOperation(cli, items.filter(i => isContainerActive(i.container)), {
+                    title: 'Stopping containers',
+                    action: 'stop',
+                    pastTense: 'stopped',
+                    noun: 'container',
+                    label: containerLabel,
+                    run: (i) => cli.stopContainer(i.container.id)
+                });
+                await containersProvider.refresh();
+                return;
+            }
+
             const containerId = item?.container?.id;
             if (!containerId) {
                 vscode.window.showErrorMessage('No container selected');
@@ -66,14 +145,100 @@ export function registerContainerCommands(
                 vscode.window.showInformationMessage(`Container stopped: ${item.container.name || containerId.substring(0, 12)}`);
                 await containersProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to stop container: ${result.error}`);
+                await showCliError(cli, 'stop container', result, {
+                    retry: () => vscode.commands.executeCommand('appleContainers.stopContainer', item)
+                });
+            }
+        })
+    );
+
+    // Pause container
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.pauseContainer', async (item: ContainerItem, selected?: ContainerItem[]) => {
+            const items = resolveSelection(item, selected, isContainerItem);
+            if (items.length > 1) {
+                await runBulkOperation(cli, items.filter(i => i.container.status === ContainerStatus.Running), {
+                    title: 'Pausing containers',
+                    action: 'pause',
+                    pastTense: 'paused',
+                    noun: 'container',
+                    label: containerLabel,
+                    run: (i) => cli.pauseContainer(i.container.id)
+                });
+                await containersProvider.refresh();
+                return;
+            }
+
+            const containerId = item?.container?.id;
+            if (!containerId) {
+                vscode.window.showErrorMessage('No container selected');
+                return;
+            }
+
+            const result = await cli.pauseContainer(containerId);
+            if (result.success) {
+                vscode.window.showInformationMessage(`Container paused: ${containerLabel(item)}`);
+                await containersProvider.refresh();
+            } else {
+                await showCliError(cli, 'pause container', result, {
+                    retry: () => vscode.commands.executeCommand('appleContainers.pauseContainer', item)
+                });
+            }
+        })
+    );
+
+    // Unpause container
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.unpauseContainer', async (item: ContainerItem, selected?: ContainerItem[]) => {
+            const items = resolveSelection(item, selected, isContainerItem);
+            if (items.length > 1) {
+                await runBulkOperation(cli, items.filter(i => i.container.status === ContainerStatus.Paused), {
+                    title: 'Resuming containers',
+                    action: 'unpause',
+                    pastTense: 'unpaused',
+                    noun: 'container',
+                    label: containerLabel,
+                    run: (i) => cli.unpauseContainer(i.container.id)
+                });
+                await containersProvider.refresh();
+                return;
+            }
+
+            const containerId = item?.container?.id;
+            if (!containerId) {
+                vscode.window.showErrorMessage('No container selected');
+                return;
+            }
+
+            const result = await cli.unpauseContainer(containerId);
+            if (result.success) {
+                vscode.window.showInformationMessage(`Container unpaused: ${containerLabel(item)}`);
+                await containersProvider.refresh();
+            } else {
+                await showCliError(cli, 'unpause container', result, {
+                    retry: () => vscode.commands.executeCommand('appleContainers.unpauseContainer', item)
+                });
             }
         })
     );
 
     // Restart container
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.restartContainer', async (item: ContainerItem) => {
+        vscode.commands.registerCommand('appleContainers.restartContainer', async (item: ContainerItem, selected?: ContainerItem[]) => {
+            const items = resolveSelection(item, selected, isContainerItem);
+            if (items.length > 1) {
+                await runBulkOperation(cli, items.filter(i => isContainerActive(i.container)), {
+                    title: 'Restarting containers',
+                    action: 'restart',
+                    pastTense: 'restarted',
+                    noun: 'container',
+                    label: containerLabel,
+                    run: (i) => restartContainer(i.container.id)
+                });
+                await containersProvider.refresh();
+                return;
+            }
+
             const containerId = item?.container?.id;
             if (!containerId) {
                 vscode.window.showErrorMessage('No container selected');
@@ -86,29 +251,29 @@ export function registerContainerCommands(
                     title: `Restarting container ${item.container.name || containerId.substring(0, 12)}...`,
                     cancellable: false
                 },
-                async () => {
-                    // Stop the container first
-                    const stopResult = await cli.stopContainer(containerId);
-                    if (!stopResult.success) {
-                        return stopResult; // Return stop error
-                    }
-                    // Only start if stop succeeded
-                    return cli.startContainer(containerId);
-                }
+                async () => restartContainer(containerId)
             );
 
             if (result.success) {
                 vscode.window.showInformationMessage(`Container restarted: ${item.container.name || containerId.substring(0, 12)}`);
                 await containersProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to restart container: ${result.error}`);
+                await showCliError(cli, 'restart container', result, {
+                    retry: () => vscode.commands.executeCommand('appleContainers.restartContainer', item)
+                });
             }
         })
     );
 
     // Delete container
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.deleteContainer', async (item: ContainerItem) => {
+        vscode.commands.registerCommand('appleContainers.deleteContainer', async (item: ContainerItem, selected?: ContainerItem[]) => {
+            const items = resolveSelection(item, selected, isContainerItem);
+            if (items.length > 1) {
+                await deleteContainers(items);
+                return;
+            }
+
             const containerId = item?.container?.id;
             if (!containerId) {
                 vscode.window.showErrorMessage('No container selected');
@@ -127,47 +292,105 @@ export function registerContainerCommands(
                 }
             }
 
-            const result = await vscode.window.withProgress(
-                {
-                    location: vscode.ProgressLocation.Notification,
-                    title: `Deleting container ${item.container.name || containerId.substring(0, 12)}...`,
-                    cancellable: false
-                },
-                async () => cli.deleteContainer(containerId, true)
-            );
+            const deleteContainer = async (force: boolean): Promise<void> => {
+                const result = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Deleting container ${item.container.name || containerId.substring(0, 12)}...`,
+                        cancellable: false
+                    },
+                    async () => cli.deleteContainer(containerId, force)
+                );
 
-            if (result.success) {
-                vscode.window.showInformationMessage(`Container deleted: ${item.container.name || containerId.substring(0, 12)}`);
-                await containersProvider.refresh();
-            } else {
-                vscode.window.showErrorMessage(`Failed to delete container: ${result.error}`);
-            }
+                if (result.success) {
+                    vscode.window.showInformationMessage(`Container deleted: ${item.container.name || containerId.substring(0, 12)}`);
+                    await containersProvider.refresh();
+                } else {
+                    await showCliError(cli, 'delete container', result, {
+                        force: force ? undefined : () => deleteContainer(true)
+                    });
+                }
+            };
+
+            await deleteContainer(false);
         })
     );
 
+    const shellPreferences = new ShellPreferenceStore(context.globalState);
+
+    // Attach with the image's remembered shell, an explicitly configured default or the only shell, otherwise ask
+    const attachWithShell = async (container: Container, alwaysAsk: boolean) => {
+        const name = container.name || container.id.substring(0, 12);
+        // Only a default the user set counts; the built-in /bin/sh should not hide bash or zsh
+        const setting = vscode.workspace.getConfiguration('appleContainers').inspect<string>('defaultShell');
+        const configured = setting?.workspaceFolderValue ?? setting?.workspaceValue ?? setting?.globalValue;
+        const probe = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: `Detecting shells in ${name}` },
+            () => probeShells(cli, container.id, configured)
+        );
+        if (!probe.success) {
+            await showCliError(cli, `attach to ${name}`, probe);
+            return;
+        }
+
+        const shells = probe.data ?? [];
+        if (shells.length === 0) {
+            const action = await vscode.window.showErrorMessage(
+                `Container "${name}" has no shell to attach with. Minimal (distroless) images contain only the application; ` +
+                'run its binaries with Execute Command... or check its output in the logs.',
+                'Execute Command...',
+                'View Logs'
+            );
+            if (action === 'Execute Command...') {
+                await vscode.commands.executeCommand('appleContainers.execCommand', new ContainerItem(container));
+            } else if (action === 'View Logs') {
+                await vscode.commands.executeCommand('appleContainers.viewLogs', new ContainerItem(container));
+            }
+            return;
+        }
+
+        const remembered = shellPreferences.get(container.image);
+        let shell = alwaysAsk
+            ? undefined
+            : findShell(shells, remembered) ?? findShell(shells, configured) ?? (shells.length === 1 ? shells[0] : undefined);
+
+        if (!shell) {
+            const picked = await vscode.window.showQuickPick(
+                shells.map(s => ({
+                    label: s,
+                    description: s === findShell(shells, remembered) ? 'last used for this image' : undefined
+                })),
+                { placeHolder: `Select a shell for ${name}; it is remembered for ${container.image}` }
+            );
+            if (!picked) {
+                return;
+            }
+            shell = picked.label;
+            await shellPreferences.set(container.image, shell);
+        }
+
+        cli.attachContainer(container.id, shell);
+    };
+
     // Attach to container
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.attachContainer', (item: ContainerItem) => {
-            const containerId = item?.container?.id;
-            if (!containerId) {
+        vscode.commands.registerCommand('appleContainers.attachContainer', async (item: ContainerItem) => {
+            if (!item?.container) {
                 vscode.window.showErrorMessage('No container selected');
                 return;
             }
-
-            cli.attachContainer(containerId);
+            await attachWithShell(item.container, false);
         })
     );
 
-    // View container logs
+    // Attach with a shell picked now, replacing the one remembered for the image
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.viewLogs', (item: ContainerItem) => {
-            const containerId = item?.container?.id;
-            if (!containerId) {
+        vscode.commands.registerCommand('appleContainers.attachContainerWithShell', async (item: ContainerItem) => {
+            if (!item?.container) {
                 vscode.window.showErrorMessage('No container selected');
                 return;
             }
-
-            cli.viewLogs(containerId);
+            await attachWithShell(item.container, true);
         })
     );
 
@@ -180,7 +403,7 @@ export function registerContainerCommands(
                 return;
             }
 
-            const inspect = await cli.inspectContainer(containerId);
+            const inspect = await cli.inspectContainerJson(containerId);
             if (inspect) {
                 const doc = await vscode.workspace.openTextDocument({
                     content: JSON.stringify(inspect, null, 2),
@@ -202,110 +425,62 @@ export function registerContainerCommands(
                 return;
             }
 
-            // Create terminal for live stats
-            const terminal = vscode.window.createTerminal({
-                name: `Stats: ${item.container.name || containerId.substring(0, 12)}`,
-                shellPath: cli.config.containerPath,
-                shellArgs: ['stats', containerId]
-            });
-            terminal.show();
+            await vscode.commands.executeCommand('appleContainers.showStatsDashboard', containerId);
         })
     );
 
-    // Run container (opens input dialog)
-    context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.runContainer', async () => {
-            const image = await vscode.window.showInputBox({
-                prompt: 'Enter image name (e.g., nginx:latest, ubuntu:22.04)',
-                placeHolder: 'image:tag',
-                validateInput: (value) => {
-                    if (!value || value.trim().length === 0) {
-                        return 'Image name is required';
-                    }
-                    return null;
-                }
-            });
+    // Offer to keep options entered in the wizard as a run profile
+    const offerSaveProfile = async (message: string, runOptions: RunContainerOptions) => {
+        const action = await vscode.window.showInformationMessage(message, 'Save as Profile');
+        if (action === 'Save as Profile') {
+            await vscode.commands.executeCommand('appleContainers.saveRunProfile', runOptions);
+        }
+    };
 
-            if (!image) {
-                return;
-            }
-
-            // Ask for container name
-            const name = await vscode.window.showInputBox({
-                prompt: 'Enter container name (optional)',
-                placeHolder: 'my-container'
-            });
+    // Run in the background or in a terminal; both build their arguments from the same options
+    const launchContainer = async (runOptions: RunContainerOptions, fromWizard: boolean) => {
+        const image = runOptions.image;
 
-            // Ask for common options
-            const options = await vscode.window.showQuickPick(
-                [
-                    { label: '$(terminal) Interactive (-it)', value: 'interactive', picked: true },
-                    { label: '$(trash) Remove on exit (--rm)', value: 'remove', picked: false },
-                    { label: '$(debug-start) Detached (-d)', value: 'detach', picked: false },
-                    { label: '$(key) Forward SSH agent (--ssh)', value: 'ssh', picked: false },
-                    { label: '$(chip) Enable Rosetta (--rosetta)', value: 'rosetta', picked: false }
-                ],
+        if (runOptions.detach) {
+            const result = await vscode.window.withProgress(
                 {
-                    canPickMany: true,
-                    placeHolder: 'Select container options'
-                }
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Running container from ${image}...`,
+                    cancellable: false
+                },
+                async () => cli.runContainer(runOptions)
             );
 
-            // Build options
-            const runOptions = {
-                image: image.trim(),
-                name: name?.trim() || undefined,
-                interactive: options?.some(o => o.value === 'interactive'),
-                tty: options?.some(o => o.value === 'interactive'),
-                remove: options?.some(o => o.value === 'remove'),
-                detach: options?.some(o => o.value === 'detach'),
-                ssh: options?.some(o => o.value === 'ssh'),
-                rosetta: options?.some(o => o.value === 'rosetta')
-            };
-
-            // If detached, use CLI method
-            if (runOptions.detach) {
-                const result = await vscode.window.withProgress(
-                    {
-                        location: vscode.ProgressLocation.Notification,
-                        title: `Running container from ${image}...`,
-                        cancellable: false
-                    },
-                    async () => cli.runContainer(runOptions)
-                );
-
-                if (result.success) {
-                    vscode.window.showInformationMessage(`Container started from ${image}`);
-                    await containersProvider.refresh();
+            if (result.success) {
+                await containersProvider.refresh();
+                if (fromWizard) {
+                    await offerSaveProfile(`Container started from ${image}`, runOptions);
                 } else {
-                    vscode.window.showErrorMessage(`Failed to run container: ${result.error}`);
+                    vscode.window.showInformationMessage(`Container started from ${image}`);
                 }
             } else {
-                // Interactive - create terminal
-                const args = ['run'];
-                if (runOptions.interactive) {
-                    args.push('-it');
-                }
-                if (runOptions.remove) {
-                    args.push('--rm');
-                }
-                if (runOptions.name) {
-                    args.push('--name', runOptions.name);
-                }
-                if (runOptions.ssh) {
-                    args.push('--ssh');
-                }
-                if (runOptions.rosetta) {
-                    args.push('--rosetta');
-                }
-                args.push(image);
+                await showCliError(cli, 'run container', result);
+            }
+            return;
+        }
 
-                const terminal = vscode.window.createTerminal({
-                    name: `Run: ${name || image}`,
-                    shellPath: cli.config.containerPath,
-                    shellArgs: args
-                });
-                terminal.show();
+        cli.runContainerInTerminal(runOptions);
+        if (fromWizard) {
+            await offerSaveProfile(`Running ${runOptions.name || image} in a terminal`, runOptions);
+        }
+    };
+
+    // Run container (opens the run wizard unless options are given, e.g. from a profile)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.runContainer', async (options?: RunContainerOptions) => {
+            if (options?.image) {
+                await launchContainer(options, false);
+                return;
+            }
+
+            const runOptions = await runContainerWizard(cli, containersProvider.containers);
+            if (runOptions) {
+                await launchContainer(runOptions, true);
             }
         })
     );
@@ -318,21 +493,222 @@ export function registerContainerCommands(
                 return;
             }
 
-            const imageName = item.fullName;
-
-            // Ask for container name
-            const name = await vscode.window.showInputBox({
-                prompt: 'Enter container name (optional)',
-                placeHolder: 'my-container'
+            // Start at the name step with the previous interactive defaults
+            const runOptions = await runContainerWizard(cli, containersProvider.containers, {
+                image: item.fullName,
+                detach: false,
+                interactive: true,
+                tty: true,
+                remove: true
             });
+            if (runOptions) {
+                await launchContainer(runOptions, true);
+            }
+        })
+    );
 
-            // Interactive run in terminal
-            const terminal = vscode.window.createTerminal({
-                name: `Run: ${name || imageName}`,
-                shellPath: cli.config.containerPath,
-                shellArgs: ['run', '-it', '--rm', ...(name ? ['--name', name] : []), imageName]
-            });
-            terminal.show();
+    // Choose how the Containers view groups its items
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.groupContainersBy', async () => {
+            const current = cli.config.containerGrouping;
+            const picks: Array<vscode.QuickPickItem & { value: ContainerGrouping }> = [
+                { label: '$(list-flat) None', value: ContainerGrouping.None },
+                { label: '$(layers) Compose project', description: COMPOSE_PROJECT_LABEL, value: ContainerGrouping.ComposeProject },
+                { label: '$(tag) Label...', description: cli.config.groupingLabel || undefined, value: ContainerGrouping.Label },
+                { label: '$(package) Image', value: ContainerGrouping.Image },
+                { label: '$(pulse) Status', value: ContainerGrouping.Status }
+            ];
+            for (const pick of picks) {
+                pick.picked = pick.value === current;
+                if (pick.picked) {
+                    pick.detail = 'Current grouping';
+                }
+            }
+
+            const selected = await vscode.window.showQuickPick(picks, { placeHolder: 'Group containers by' });
+            if (!selected) {
+                return;
+            }
+
+            const config = vscode.workspace.getConfiguration('appleContainers');
+            if (selected.value === ContainerGrouping.Label) {
+                // Offer label keys seen on current containers
+                const keys = new Set<string>();
+                for (const container of containersProvider.containers) {
+                    Object.keys(container.labels ?? {}).forEach(k => keys.add(k));
+                }
+                const labelKey = await pickLabelKey(Array.from(keys).sort(), cli.config.groupingLabel);
+                if (!labelKey) {
+                    return;
+                }
+                await config.update('groupingLabel', labelKey, vscode.ConfigurationTarget.Global);
+            }
+            await config.update('containerGrouping', selected.value, vscode.ConfigurationTarget.Global);
+        })
+    );
+
+    // Group-level actions reuse the multi-select command handlers
+    const runOnGroup = async (group: ContainerGroupItem | undefined, command: string, filter: (item: ContainerItem) => boolean, emptyMessage: string) => {
+        if (!(group instanceof ContainerGroupItem)) {
+            vscode.window.showErrorMessage('No container group selected');
+            return;
+        }
+        const items = group.group.containers.map(c => new ContainerItem(c)).filter(filter);
+        if (items.length === 0) {
+            vscode.window.showInformationMessage(emptyMessage);
+            return;
+        }
+        await vscode.commands.executeCommand(command, items[0], items);
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.startGroup', (group: ContainerGroupItem) => runOnGroup(
+            group,
+            'appleContainers.startContainer',
+            i => !isContainerActive(i.container),
+            'All containers in this group are already running'
+        )),
+        vscode.commands.registerCommand('appleContainers.stopGroup', (group: ContainerGroupItem) => runOnGroup(
+            group,
+            'appleContainers.stopContainer',
+            i => isContainerActive(i.container),
+            'No running containers in this group'
+        )),
+        vscode.commands.registerCommand('appleContainers.deleteGroup', (group: ContainerGroupItem) => runOnGroup(
+            group,
+            'appleContainers.deleteContainer',
+            () => true,
+            'This group has no containers'
+        ))
+    );
+
+    // Open a published port in the browser
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.openPortInBrowser', async (item: PortItem | ContainerItem) => {
+            const port = await resolvePort(item);
+            const uri = port && await resolvePortUri(port, true);
+            if (uri) {
+                await vscode.env.openExternal(uri);
+            }
+        })
+    );
+
+    // Copy the URL of a published port
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.copyPortUrl', async (item: PortItem | ContainerItem) => {
+            const port = await resolvePort(item);
+            const uri = port && await resolvePortUri(port, false);
+            if (uri) {
+                const url = uri.toString(true);
+                await vscode.env.clipboard.writeText(url);
+                vscode.window.setStatusBarMessage(`Copied ${url}`, 3000);
+            }
+        })
+    );
+
+    // Reveal the host side of a bind mount
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.revealMount', async (item: MountItem) => {
+            if (!(item instanceof MountItem) || item.mount.type !== 'bind') {
+                vscode.window.showErrorMessage('No bind mount selected');
+                return;
+            }
+
+            await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(item.mount.source));
         })
     );
+
+    // Copy an environment variable as NAME=value
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.copyEnvVar', async (item: EnvVarItem) => {
+            if (!(item instanceof EnvVarItem)) {
+                vscode.window.showErrorMessage('No environment variable selected');
+                return;
+            }
+
+            await vscode.env.clipboard.writeText(`${item.name}=${item.value}`);
+            vscode.window.setStatusBarMessage(`Copied ${item.name} to clipboard`, 3000);
+        })
+    );
+}
+
+/**
+ * Pick an existing label key or type a new one
+ */
+async function pickLabelKey(keys: string[], current: string): Promise<string | undefined> {
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.placeholder = 'Label key to group by (select or type)';
+    quickPick.value = current;
+    const baseItems = keys.map(key => ({ label: key }));
+    quickPick.items = baseItems;
+    quickPick.onDidChangeValue((value) => {
+        // Let the user enter a key that no current container has
+        quickPick.items = value && !keys.includes(value) ? [{ label: value }, ...baseItems] : baseItems;
+    });
+
+    return new Promise<string | undefined>((resolve) => {
+        quickPick.onDidAccept(() => {
+            const value = quickPick.selectedItems[0]?.label ?? quickPick.value;
+            resolve(value.trim() || undefined);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            resolve(undefined);
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+/**
+ * Resolve the published TCP port a command applies to, asking when a container has several
+ */
+async function resolvePort(item: PortItem | ContainerItem | undefined): Promise<PortMapping | undefined> {
+    if (item instanceof PortItem) {
+        return item.port;
+    }
+    if (!(item instanceof ContainerItem)) {
+        vscode.window.showErrorMessage('No port selected');
+        return undefined;
+    }
+
+    const ports = (item.container.ports ?? []).filter(p => p.protocol === 'tcp');
+    if (ports.length === 0) {
+        vscode.window.showInformationMessage(`Container "${item.container.name || item.container.id.substring(0, 12)}" has no published TCP ports`);
+        return undefined;
+    }
+    if (ports.length === 1) {
+        return ports[0];
+    }
+    const selected = await vscode.window.showQuickPick(
+        ports.map(port => ({
+            label: `${port.hostPort} → ${port.containerPort}/tcp`,
+            description: portHost(port),
+            port
+        })),
+        { placeHolder: 'Select a published port' }
+    );
+    return selected?.port;
+}
+
+/**
+ * Build the URL of a port, probing for HTTPS, and map it through VS Code port forwarding
+ * so it also works from remote windows
+ * @param confirm ask before using a port that did not answer HTTP
+ */
+async function resolvePortUri(port: PortMapping, confirm: boolean): Promise<vscode.Uri | undefined> {
+    const scheme = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: `Checking port ${port.hostPort}` },
+        () => probePortScheme(port)
+    );
+    if (!scheme && confirm) {
+        const action = await vscode.window.showWarningMessage(
+            `Port ${port.hostPort} did not answer an HTTP request. Open it anyway?`,
+            'Open'
+        );
+        if (action !== 'Open') {
+            return undefined;
+        }
+    }
+    return vscode.env.asExternalUri(vscode.Uri.parse(portUrl(port, scheme ?? 'http')));
 }
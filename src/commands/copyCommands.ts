@@ -0,0 +1,227 @@
+/**
+ * Copy Commands
+ * Handles copying files and folders between the host and running containers
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContainerCli, formatSize } from '../cli';
+import { ContainerItem } from '../providers/containersProvider';
+import { CONTAINER_FS_SCHEME } from '../providers/containerFileSystem';
+import { CliResult, Container, ContainerStatus } from '../types';
+import { showCliError } from './cliErrors';
+
+/**
+ * Total size of a file or directory tree on the host, without following links
+ */
+async function hostSize(target: string): Promise<number> {
+    const stat = await fs.promises.lstat(target);
+    if (!stat.isDirectory()) {
+        return stat.size;
+    }
+    const entries = await fs.promises.readdir(target);
+    const sizes = await Promise.all(entries.map(entry => hostSize(path.join(target, entry))));
+    return sizes.reduce((total, size) => total + size, 0);
+}
+
+/**
+ * Register copy commands
+ */
+export function registerCopyCommands(
+    context: vscode.ExtensionContext,
+    cli: ContainerCli
+): void {
+    // Pick a running container when the command is not invoked from the tree
+    const pickRunningContainer = async (placeHolder: string): Promise<Container | undefined> => {
+        const containers = (await cli.listContainers(false)).filter(c => c.status === ContainerStatus.Running);
+        if (containers.length === 0) {
+            vscode.window.showInformationMessage('No running containers');
+            return undefined;
+        }
+        const selected = await vscode.window.showQuickPick(
+            containers.map(c => ({ label: c.name || c.id.substring(0, 12), description: c.image, container: c })),
+            { placeHolder }
+        );
+        return selected?.container;
+    };
+
+    // Run a copy with a cancellable notification that reports transferred bytes against the expected size
+    const runCopy = (
+        title: string,
+        totalBytes: number | undefined,
+        copy: (token: vscode.CancellationToken, onProgress: (bytes: number) => void) => Promise<CliResult<void>>
+    ): Thenable<CliResult<void>> => vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+        (progress, token) => {
+            let reported = 0;
+            return copy(token, (bytes) => {
+                // Archive headers make the stream slightly larger than the files, so cap at 100%
+                const percent = totalBytes ? Math.min(100, bytes / totalBytes * 100) : reported;
+                const increment = Math.max(0, percent - reported);
+                reported = Math.max(reported, percent);
+                progress.report({
+                    message: totalBytes ? `${formatSize(Math.min(bytes, totalBytes))} of ${formatSize(totalBytes)}` : formatSize(bytes),
+                    increment
+                });
+            });
+        }
+    );
+
+    // Copy host files and folders into a container
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.copyIntoContainer', async (target?: ContainerItem | vscode.Uri, extra?: unknown) => {
+            // The Explorer passes the clicked resource and the selection; drops pass the item and the dropped files
+            const passedUris = Array.isArray(extra) && extra.length > 0 && extra.every(u => u instanceof vscode.Uri)
+                ? extra as vscode.Uri[]
+                : target instanceof vscode.Uri ? [target] : [];
+            const container = target instanceof ContainerItem
+                ? target.container
+                : await pickRunningContainer('Select the container to copy into');
+            if (!container) {
+                return;
+            }
+            if (container.status !== ContainerStatus.Running) {
+                vscode.window.showErrorMessage(`Container "${container.name || container.id}" must be running to copy files into it`);
+                return;
+            }
+
+            const sources = passedUris.length > 0
+                ? passedUris.filter(u => u.scheme === 'file')
+                : await vscode.window.showOpenDialog({
+                    canSelectFiles: true,
+                    canSelectFolders: true,
+                    canSelectMany: true,
+                    openLabel: 'Copy Into Container',
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+                }) ?? [];
+            if (sources.length === 0) {
+                return;
+            }
+
+            const inspect = await cli.inspectContainer(container.id);
+            const destination = await vscode.window.showInputBox({
+                prompt: `Directory in ${container.name || container.id.substring(0, 12)} to copy ${sources.length === 1 ? path.basename(sources[0].fsPath) : `${sources.length} items`} into`,
+                value: inspect?.config?.workingDir || '/',
+                validateInput: (value) => value.startsWith('/') ? null : 'Enter an absolute path'
+            });
+            if (!destination) {
+                return;
+            }
+
+            let totalBytes: number | undefined;
+            try {
+                const sizes = await Promise.all(sources.map(s => hostSize(s.fsPath)));
+                totalBytes = sizes.reduce((total, size) => total + size, 0);
+            } catch {
+                // Copy anyway; tar reports unreadable files itself
+                totalBytes = undefined;
+            }
+
+            const name = container.name || container.id.substring(0, 12);
+            const result = await runCopy(`Copying into ${name}:${destination}`, totalBytes, async (token, onProgress) => {
+                let copied = 0;
+                for (const source of sources) {
+                    const base = copied;
+                    const copy = await cli.copyToContainer(container.id, source.fsPath, destination, {
+                        token,
+                        onProgress: bytes => {
+                            copied = base + bytes;
+                            onProgress(copied);
+                        }
+                    });
+                    if (!copy.success) {
+                        return copy;
+                    }
+                }
+                return { success: true, exitCode: 0 };
+            });
+
+            if (result.success) {
+                vscode.window.showInformationMessage(`Copied ${sources.length === 1 ? path.basename(sources[0].fsPath) : `${sources.length} items`} to ${name}:${destination}`);
+            } else {
+                await showCliError(cli, `copy into ${name}`, result);
+            }
+        })
+    );
+
+    // Copy a file or folder out of a container
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.copyFromContainer', async (target?: ContainerItem | vscode.Uri) => {
+            let containerId: string;
+            let name: string;
+            let source: string | undefined;
+            if (target instanceof vscode.Uri && target.scheme === CONTAINER_FS_SCHEME) {
+                // Invoked on a file in a browsed container
+                containerId = target.authority;
+                name = containerId.substring(0, 12);
+                source = target.path;
+            } else {
+                const container = target instanceof ContainerItem
+                    ? target.container
+                    : await pickRunningContainer('Select the container to copy from');
+                if (!container) {
+                    return;
+                }
+                if (container.status !== ContainerStatus.Running) {
+                    vscode.window.showErrorMessage(`Container "${container.name || container.id}" must be running to copy files from it`);
+                    return;
+                }
+                containerId = container.id;
+                name = container.name || container.id.substring(0, 12);
+                source = await vscode.window.showInputBox({
+                    prompt: `File or directory in ${name} to copy`,
+                    placeHolder: '/etc/nginx/nginx.conf',
+                    validateInput: (value) => value.startsWith('/') ? null : 'Enter an absolute path'
+                });
+            }
+            if (!source) {
+                return;
+            }
+            // Trailing slashes would make the archive entry name empty
+            const sourcePath = source.replace(/(.)\/+$/, '$1');
+
+            const folders = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                openLabel: 'Copy Here',
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+            });
+            const destination = folders?.[0]?.fsPath;
+            if (!destination) {
+                return;
+            }
+
+            const targetPath = path.join(destination, path.posix.basename(sourcePath));
+            if (fs.existsSync(targetPath)) {
+                const overwrite = await vscode.window.showWarningMessage(
+                    `"${targetPath}" already exists. Overwrite it?`,
+                    { modal: true },
+                    'Overwrite'
+                );
+                if (overwrite !== 'Overwrite') {
+                    return;
+                }
+            }
+
+            // du is only used for progress, so copy without a total when it is missing
+            const usage = await cli.execInContainer(containerId, ['du', '-sk', sourcePath]);
+            const kilobytes = usage.success ? parseInt(usage.data?.stdout.toString('utf8') ?? '', 10) : NaN;
+            const totalBytes = Number.isFinite(kilobytes) ? kilobytes * 1024 : undefined;
+
+            const result = await runCopy(`Copying ${name}:${sourcePath}`, totalBytes, (token, onProgress) =>
+                cli.copyFromContainer(containerId, sourcePath, destination, { token, onProgress })
+            );
+
+            if (result.success) {
+                const action = await vscode.window.showInformationMessage(`Copied ${name}:${sourcePath} to ${destination}`, 'Reveal');
+                if (action === 'Reveal') {
+                    await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(targetPath));
+                }
+            } else {
+                await showCliError(cli, `copy from ${name}`, result);
+            }
+        })
+    );
+}
@@ -0,0 +1,227 @@
+/**
+ * Exec Commands
+ * Handles running one-off commands in running containers
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli, quoteShellArg } from '../cli';
+import { ExecHistoryEntry, ExecHistoryStore, describeExecOptions } from '../execHistory';
+import { ContainerItem } from '../providers/containersProvider';
+import { parseEnvEntry } from '../providers/containerDetails';
+import { CliErrorKind, Container, ContainerStatus, ExecOptions } from '../types';
+import { showCliError } from './cliErrors';
+import { splitCommandLine } from './runWizard';
+
+type ExecPickItem = vscode.QuickPickItem & {
+    entry?: ExecHistoryEntry;
+    /** Ask for environment, working directory and user before running */
+    withOptions?: boolean;
+};
+
+const REMOVE_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('close'), tooltip: 'Remove from History' };
+const OPTIONS_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('settings-gear'), tooltip: 'Run with Options...' };
+
+/**
+ * Ask for the environment, working directory and user of a command, starting from previous values
+ * @returns undefined when any prompt is cancelled
+ */
+async function promptExecOptions(defaults: ExecOptions): Promise<ExecOptions | undefined> {
+    const env = await vscode.window.showInputBox({
+        prompt: 'Environment variables as NAME=value, separated by spaces (optional)',
+        placeHolder: 'DEBUG=1 LOG_LEVEL=info',
+        value: Object.entries(defaults.env ?? {}).map(([key, value]) => quoteShellArg(`${key}=${value}`)).join(' '),
+        validateInput: (value) => {
+            const invalid = splitCommandLine(value).find(entry => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(entry));
+            return invalid ? `Expected NAME=value, got "${invalid}"` : null;
+        }
+    });
+    if (env === undefined) {
+        return undefined;
+    }
+
+    const workdir = await vscode.window.showInputBox({
+        prompt: 'Working directory (optional)',
+        placeHolder: '/app',
+        value: defaults.workdir ?? '',
+        validateInput: (value) => !value || value.startsWith('/') ? null : 'Enter an absolute path'
+    });
+    if (workdir === undefined) {
+        return undefined;
+    }
+
+    const user = await vscode.window.showInputBox({
+        prompt: 'User to run as: name, uid or user:group (optional)',
+        placeHolder: 'root',
+        value: defaults.user ?? ''
+    });
+    if (user === undefined) {
+        return undefined;
+    }
+
+    const entries = splitCommandLine(env).map(parseEnvEntry);
+    return {
+        env: entries.length > 0 ? Object.fromEntries(entries.map(e => [e.name, e.value])) : undefined,
+        workdir: workdir || undefined,
+        user: user || undefined
+    };
+}
+
+/**
+ * Register exec commands
+ */
+export function registerExecCommands(
+    context: vscode.ExtensionContext,
+    cli: ContainerCli,
+    history: ExecHistoryStore
+): void {
+    const output = vscode.window.createOutputChannel('Apple Containers: Exec');
+    context.subscriptions.push(output);
+
+    // Pick a running container when the command is not invoked from the tree
+    const pickRunningContainer = async (): Promise<Container | undefined> => {
+        const containers = (await cli.listContainers(false)).filter(c => c.status === ContainerStatus.Running);
+        if (containers.length === 0) {
+            vscode.window.showInformationMessage('No running containers');
+            return undefined;
+        }
+        const selected = await vscode.window.showQuickPick(
+            containers.map(c => ({ label: c.name || c.id.substring(0, 12), description: c.image, container: c })),
+            { placeHolder: 'Select the container to run a command in' }
+        );
+        return selected?.container;
+    };
+
+    // Type a new command or pick a recent one; history items can be removed or re-run with other options
+    const pickExecEntry = (key: string, name: string): Promise<ExecHistoryEntry | undefined> => new Promise((resolve) => {
+        const quickPick = vscode.window.createQuickPick<ExecPickItem>();
+        quickPick.title = `Execute Command in ${name}`;
+        quickPick.placeholder = 'Type a command to run, or pick a recent one';
+
+        const historyItems = (): ExecPickItem[] => history.get(key).map(entry => ({
+            label: entry.command,
+            description: describeExecOptions(entry),
+            buttons: [OPTIONS_BUTTON, REMOVE_BUTTON],
+            entry
+        }));
+        const updateItems = () => {
+            const command = quickPick.value.trim();
+            const typed: ExecPickItem[] = command
+                ? [
+                    { label: `$(play) ${command}`, description: 'Run', alwaysShow: true, entry: { command } },
+                    { label: `$(settings-gear) ${command}`, description: 'Run with environment, working directory or user...', alwaysShow: true, entry: { command }, withOptions: true }
+                ]
+                : [];
+            const recent = historyItems();
+            quickPick.items = recent.length > 0 && typed.length > 0
+                ? [...typed, { label: 'Recent', kind: vscode.QuickPickItemKind.Separator }, ...recent]
+                : [...typed, ...recent];
+        };
+
+        let picked: { entry: ExecHistoryEntry; withOptions: boolean } | undefined;
+        quickPick.onDidChangeValue(updateItems);
+        quickPick.onDidAccept(() => {
+            const item = quickPick.selectedItems[0];
+            if (item?.entry) {
+                picked = { entry: item.entry, withOptions: item.withOptions === true };
+                quickPick.hide();
+            }
+        });
+        quickPick.onDidTriggerItemButton(async (e) => {
+            if (!e.item.entry) {
+                return;
+            }
+            if (e.button === OPTIONS_BUTTON) {
+                picked = { entry: e.item.entry, withOptions: true };
+                quickPick.hide();
+                return;
+            }
+            await history.remove(key, e.item.entry);
+            updateItems();
+        });
+        quickPick.onDidHide(async () => {
+            quickPick.dispose();
+            if (!picked) {
+                resolve(undefined);
+                return;
+            }
+            if (!picked.withOptions) {
+                resolve(picked.entry);
+                return;
+            }
+            const options = await promptExecOptions(picked.entry);
+            resolve(options ? { ...options, command: picked.entry.command } : undefined);
+        });
+
+        updateItems();
+        quickPick.show();
+    });
+
+    // Run a command in a container and show its output
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.execCommand', async (item?: ContainerItem) => {
+            const container = item instanceof ContainerItem ? item.container : await pickRunningContainer();
+            if (!container) {
+                return;
+            }
+            if (container.status !== ContainerStatus.Running) {
+                vscode.window.showErrorMessage(`Container "${container.name || container.id}" must be running to execute commands`);
+                return;
+            }
+
+            const name = container.name || container.id.substring(0, 12);
+            const key = container.name || container.id;
+            const entry = await pickExecEntry(key, name);
+            if (!entry) {
+                return;
+            }
+            const command = splitCommandLine(entry.command);
+            if (command.length === 0) {
+                return;
+            }
+            await history.add(key, entry);
+
+            const started = Date.now();
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Running "${entry.command}" in ${name}`,
+                    cancellable: true
+                },
+                (_progress, token) => cli.execInContainer(container.id, command, {
+                    env: entry.env,
+                    workdir: entry.workdir,
+                    user: entry.user,
+                    token
+                })
+            );
+
+            // The command never ran, so there is no output to show
+            const kind = result.cliError?.kind;
+            if (kind === CliErrorKind.Cancelled || kind === CliErrorKind.NotInstalled || kind === CliErrorKind.ServiceNotRunning) {
+                await showCliError(cli, `run command in ${name}`, result);
+                return;
+            }
+
+            const options = describeExecOptions(entry);
+            output.appendLine(`${name}$ ${entry.command}${options ? `  (${options})` : ''}`);
+            const stdout = result.data?.stdout.toString('utf8') ?? '';
+            const stderr = result.data?.stderr ?? '';
+            if (stdout) {
+                output.append(stdout.endsWith('\n') ? stdout : `${stdout}\n`);
+            }
+            if (stderr) {
+                output.append(stderr.endsWith('\n') ? stderr : `${stderr}\n`);
+            }
+            if (!stdout && !stderr && result.error) {
+                output.appendLine(result.error);
+            }
+            output.appendLine(`[exit code ${result.exitCode} in ${((Date.now() - started) / 1000).toFixed(1)}s]`);
+            output.appendLine('');
+            output.show(true);
+
+            if (!result.success) {
+                vscode.window.showWarningMessage(`"${entry.command}" exited with code ${result.exitCode} in ${name}`);
+            }
+        })
+    );
+}
@@ -0,0 +1,51 @@
+/**
+ * File Commands
+ * Handles browsing and editing files inside running containers
+ */
+
+import * as vscode from 'vscode';
+import { ContainerItem } from '../providers/containersProvider';
+import { CONTAINER_FS_SCHEME, ContainerFileSystemProvider, containerFileUri } from '../providers/containerFileSystem';
+import { ContainerStatus } from '../types';
+
+/**
+ * Register file commands
+ */
+export function registerFileCommands(
+    context: vscode.ExtensionContext,
+    files: ContainerFileSystemProvider
+): void {
+    context.subscriptions.push(
+        vscode.workspace.registerFileSystemProvider(CONTAINER_FS_SCHEME, files, { isCaseSensitive: true })
+    );
+
+    // Add the container's root directory to the Explorer
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.browseFiles', async (item: ContainerItem) => {
+            const container = item?.container;
+            if (!container) {
+                vscode.window.showErrorMessage('No container selected');
+                return;
+            }
+            if (container.status !== ContainerStatus.Running) {
+                vscode.window.showErrorMessage(`Container "${container.name || container.id}" must be running to browse its files`);
+                return;
+            }
+
+            const uri = containerFileUri(container.id);
+            const folders = vscode.workspace.workspaceFolders ?? [];
+            if (!folders.some(f => f.uri.toString() === uri.toString())) {
+                // Adding the first folder to an empty window reloads it, so nothing after this runs in that case
+                const added = vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+                    uri,
+                    name: `Container: ${container.name || container.id.substring(0, 12)}`
+                });
+                if (!added) {
+                    vscode.window.showErrorMessage('Could not add the container to the workspace');
+                    return;
+                }
+            }
+            await vscode.commands.executeCommand('workbench.view.explorer');
+        })
+    );
+}
@@ -0,0 +1,117 @@
+/**
+ * Filter Commands
+ * Handles filtering the container, image, volume and network views
+ */
+
+import * as vscode from 'vscode';
+import { FilterableView, StatusFilter, ViewFilterStore, EMPTY_FILTER, isFilterActive } from '../viewFilters';
+
+/**
+ * Command name suffix, display noun and text-matched fields for each filterable view
+ */
+const FILTER_VIEWS: Array<{ view: FilterableView; suffix: string; noun: string; fields: string }> = [
+    { view: 'containers', suffix: 'Containers', noun: 'containers', fields: 'name, ID, image or label' },
+    { view: 'images', suffix: 'Images', noun: 'images', fields: 'reference, ID or label' },
+    { view: 'volumes', suffix: 'Volumes', noun: 'volumes', fields: 'name or label' },
+    { view: 'networks', suffix: 'Networks', noun: 'networks', fields: 'name or label' }
+];
+
+/**
+ * Register filter commands for every view
+ */
+export function registerFilterCommands(
+    context: vscode.ExtensionContext,
+    filters: ViewFilterStore
+): void {
+    for (const { view, suffix, noun, fields } of FILTER_VIEWS) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(`appleContainers.filter${suffix}`, () => editFilter(filters, view, noun, fields)),
+            vscode.commands.registerCommand(`appleContainers.clear${suffix}Filter`, () => filters.set(view, EMPTY_FILTER))
+        );
+    }
+}
+
+/**
+ * Let the user change one part of a view's filter
+ */
+async function editFilter(filters: ViewFilterStore, view: FilterableView, noun: string, fields: string): Promise<void> {
+    const filter = filters.get(view);
+    type FilterPick = vscode.QuickPickItem & { action: 'text' | 'status' | 'workspace' | 'clear' };
+
+    const picks: FilterPick[] = [
+        { label: '$(search) Filter by text...', description: filter.text || fields, action: 'text' }
+    ];
+    if (view === 'containers') {
+        picks.push({ label: '$(pulse) Filter by status...', description: filter.status, action: 'status' });
+    }
+    picks.push({
+        label: filter.workspaceOnly ? '$(check) Only this workspace' : '$(folder) Only this workspace',
+        description: filter.workspaceOnly ? 'On' : 'Off',
+        detail: `Show only ${noun} whose compose project matches an open workspace folder`,
+        action: 'workspace'
+    });
+    if (isFilterActive(filter)) {
+        picks.push({ label: '$(clear-all) Clear filter', action: 'clear' });
+    }
+
+    const selected = await vscode.window.showQuickPick(picks, { placeHolder: `Filter ${noun}` });
+    switch (selected?.action) {
+        case 'text':
+            await editTextFilter(filters, view, noun, fields);
+            break;
+        case 'status': {
+            const status = await vscode.window.showQuickPick(
+                [
+                    { label: 'All', value: StatusFilter.All },
+                    { label: 'Running', description: 'including paused', value: StatusFilter.Running },
+                    { label: 'Stopped', value: StatusFilter.Stopped }
+                ].map(p => ({ ...p, picked: p.value === filter.status })),
+                { placeHolder: 'Show containers with status' }
+            );
+            if (status) {
+                await filters.set(view, { ...filter, status: status.value });
+            }
+            break;
+        }
+        case 'workspace':
+            await filters.set(view, { ...filter, workspaceOnly: !filter.workspaceOnly });
+            break;
+        case 'clear':
+            await filters.set(view, EMPTY_FILTER);
+            break;
+        default:
+            break;
+    }
+}
+
+/**
+ * Edit the text filter, applying it to the view as the user types
+ */
+async function editTextFilter(filters: ViewFilterStore, view: FilterableView, noun: string, fields: string): Promise<void> {
+    const original = filters.get(view);
+    const input = vscode.window.createInputBox();
+    input.title = `Filter ${noun}`;
+    input.prompt = `Matches the ${fields} (case-insensitive). Press Escape to cancel`;
+    input.placeholder = 'Text to match';
+    input.value = original.text;
+
+    await new Promise<void>((resolve) => {
+        let accepted = false;
+        input.onDidChangeValue((value) => {
+            void filters.set(view, { ...original, text: value.trim() });
+        });
+        input.onDidAccept(() => {
+            accepted = true;
+            input.hide();
+        });
+        input.onDidHide(() => {
+            if (!accepted) {
+                // Escape restores the filter the user started with
+                void filters.set(view, original);
+            }
+            input.dispose();
+            resolve();
+        });
+        input.show();
+    });
+}
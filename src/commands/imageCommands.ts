@@ -7,6 +7,11 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { ContainerCli } from '../cli';
 import { ImagesProvider, ImageItem } from '../providers/imagesProvider';
+import { PullProgressParser } from '../pullProgress';
+import { showCliError } from './cliErrors';
+import { resolveSelection, runBulkOperation } from './bulk';
+
+const isImageItem = (value: unknown): value is ImageItem => value instanceof ImageItem;
 
 /**
  * Register image commands
@@ -50,16 +55,40 @@ export function registerImageCommands(
                 return;
             }
 
-            // Pull in terminal for progress visibility
-            cli.pullImage({
-                image: image.trim(),
-                platform: platform.value
-            });
+            const imageName = image.trim();
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Pulling image ${imageName}`,
+                    cancellable: true
+                },
+                async (progress, token) => {
+                    const parser = new PullProgressParser();
+                    let reported = 0;
+                    const pull = cli.pullImage({ image: imageName, platform: platform.value }, token);
+                    pull.onDidOutputLine((line) => {
+                        const update = parser.parse(line.text);
+                        if (!update) {
+                            return;
+                        }
+                        // withProgress expects increments rather than absolute values
+                        const percent = update.percent ?? reported;
+                        const increment = Math.max(0, percent - reported);
+                        reported = Math.max(reported, percent);
+                        progress.report({ message: update.message, increment });
+                    });
+                    return pull.completion;
+                }
+            );
 
-            // Refresh after a delay
-            setTimeout(() => {
-                void imagesProvider.refresh();
-            }, 5000);
+            if (result.success) {
+                vscode.window.showInformationMessage(`Image pulled: ${imageName}`);
+                await imagesProvider.refresh();
+            } else if (result.cancelled) {
+                vscode.window.showInformationMessage(`Pull cancelled: ${imageName}`);
+            } else {
+                await showCliError(cli, `pull image ${imageName}`, result);
+            }
         })
     );
 
@@ -146,7 +175,37 @@ export function registerImageCommands(
 
     // Delete image
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.deleteImage', async (item: ImageItem) => {
+        vscode.commands.registerCommand('appleContainers.deleteImage', async (item: ImageItem, selected?: ImageItem[]) => {
+            const items = resolveSelection(item, selected, isImageItem);
+            if (items.length > 1) {
+                if (cli.config.confirmBeforeDelete) {
+                    const confirm = await vscode.window.showWarningMessage(
+                        `Are you sure you want to delete ${items.length} images?`,
+                        { modal: true, detail: items.map(i => i.fullName).join('\n') },
+                        'Delete'
+                    );
+                    if (confirm !== 'Delete') {
+                        return;
+                    }
+                }
+
+                const deleteImages = async (targets: ImageItem[], force: boolean): Promise<void> => {
+                    await runBulkOperation(cli, targets, {
+                        title: 'Deleting images',
+                        action: 'delete',
+                        pastTense: 'deleted',
+                        noun: 'image',
+                        label: (i) => i.fullName,
+                        run: (i) => cli.deleteImage(i.image.id, force),
+                        force: force ? undefined : (inUse) => deleteImages(inUse, true)
+                    });
+                    await imagesProvider.refresh();
+                };
+
+                await deleteImages(items, false);
+                return;
+            }
+
             const imageId = item?.image?.id;
             if (!imageId) {
                 vscode.window.showErrorMessage('No image selected');
@@ -167,21 +226,27 @@ export function registerImageCommands(
                 }
             }
 
-            const result = await vscode.window.withProgress(
-                {
-                    location: vscode.ProgressLocation.Notification,
-                    title: `Deleting image ${imageName}...`,
-                    cancellable: false
-                },
-                async () => cli.deleteImage(imageId, true)
-            );
+            const deleteImage = async (force: boolean): Promise<void> => {
+                const result = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Deleting image ${imageName}...`,
+                        cancellable: false
+                    },
+                    async () => cli.deleteImage(imageId, force)
+                );
 
-            if (result.success) {
-                vscode.window.showInformationMessage(`Image deleted: ${imageName}`);
-                await imagesProvider.refresh();
-            } else {
-                vscode.window.showErrorMessage(`Failed to delete image: ${result.error}`);
-            }
+                if (result.success) {
+                    vscode.window.showInformationMessage(`Image deleted: ${imageName}`);
+                    await imagesProvider.refresh();
+                } else {
+                    await showCliError(cli, 'delete image', result, {
+                        force: force ? undefined : () => deleteImage(true)
+                    });
+                }
+            };
+
+            await deleteImage(false);
         })
     );
 
@@ -248,7 +313,7 @@ export function registerImageCommands(
                 vscode.window.showInformationMessage('Images pruned successfully');
                 await imagesProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to prune images: ${result.error}`);
+                await showCliError(cli, 'prune images', result);
             }
         })
     );
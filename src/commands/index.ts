@@ -6,3 +6,10 @@ export { registerContainerCommands } from './containerCommands';
 export { registerImageCommands } from './imageCommands';
 export { registerVolumeCommands } from './volumeCommands';
 export { registerNetworkCommands } from './networkCommands';
+export { registerSystemCommands } from './systemCommands';
+export { registerFilterCommands } from './filterCommands';
+export { registerProfileCommands } from './profileCommands';
+export { registerLogCommands } from './logCommands';
+export { registerFileCommands } from './fileCommands';
+export { registerCopyCommands } from './copyCommands';
+export { registerExecCommands } from './execCommands';
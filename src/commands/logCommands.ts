@@ -0,0 +1,227 @@
+/**
+ * Log Commands
+ * Handles opening, filtering and saving container log documents
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AggregatedLogTerminal, LogSource } from '../aggregatedLogs';
+import { ContainerCli } from '../cli';
+import { ContainerGroupItem, ContainerItem } from '../providers/containersProvider';
+import { LOGS_SCHEME, LogDocumentProvider, compileLogFilter, createLogUri, parseSince } from '../providers/logDocumentProvider';
+import { ContainerStatus } from '../types';
+import { resolveSelection } from './bulk';
+
+const isContainerItem = (value: unknown): value is ContainerItem => value instanceof ContainerItem;
+
+/**
+ * Register log commands
+ */
+export function registerLogCommands(
+    context: vscode.ExtensionContext,
+    cli: ContainerCli,
+    logs: LogDocumentProvider
+): void {
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(LOGS_SCHEME, logs)
+    );
+
+    // Editor title actions pass the document URI; fall back to the active editor
+    const resolveLogUri = (uri?: vscode.Uri): vscode.Uri | undefined => {
+        const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+        if (target?.scheme !== LOGS_SCHEME) {
+            vscode.window.showErrorMessage('No container log document is active');
+            return undefined;
+        }
+        return target;
+    };
+
+    // View container logs
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.viewLogs', async (item: ContainerItem) => {
+            const containerId = item?.container?.id;
+            if (!containerId) {
+                vscode.window.showErrorMessage('No container selected');
+                return;
+            }
+
+            // The .log path gives the document the built-in log language, which highlights levels, dates and identifiers
+            const doc = await vscode.workspace.openTextDocument(createLogUri(containerId, item.container.name));
+            await vscode.window.showTextDocument(doc, { preview: false });
+        })
+    );
+
+    // Filter log lines by regular expression
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.filterLogs', async (uri?: vscode.Uri) => {
+            const target = resolveLogUri(uri);
+            if (!target) {
+                return;
+            }
+
+            const filter = await vscode.window.showInputBox({
+                prompt: 'Show only lines matching a regular expression (case-insensitive); leave empty to show all',
+                placeHolder: 'error|warn',
+                value: logs.getQuery(target).filter,
+                validateInput: (value) => {
+                    const compiled = compileLogFilter(value);
+                    return typeof compiled === 'string' ? compiled : null;
+                }
+            });
+            if (filter !== undefined) {
+                logs.updateQuery(target, { filter });
+            }
+        })
+    );
+
+    // Change tail, since and timestamp options
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.logOptions', async (uri?: vscode.Uri) => {
+            const target = resolveLogUri(uri);
+            if (!target) {
+                return;
+            }
+
+            const query = logs.getQuery(target);
+            const items: (vscode.QuickPickItem & { option: 'tail' | 'since' | 'timestamps' | 'reload' })[] = [
+                { label: '$(list-flat) Tail', description: query.tail > 0 ? `last ${query.tail} lines` : 'all lines', option: 'tail' },
+                { label: '$(history) Since', description: query.since ? `${query.since} (lines without a timestamp are always shown)` : 'any time', option: 'since' },
+                { label: '$(clock) Timestamps', description: query.timestamps ? 'on: logged time, or received time when a line has none' : 'off', option: 'timestamps' },
+                { label: '$(refresh) Reload', description: 'Restart the log stream', option: 'reload' }
+            ];
+            const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Log options' });
+            if (!selected) {
+                return;
+            }
+
+            switch (selected.option) {
+                case 'tail': {
+                    const tail = await vscode.window.showInputBox({
+                        prompt: 'Number of lines to load from the end of the log (0 for all)',
+                        value: query.tail.toString(),
+                        validateInput: (value) => /^\d+$/.test(value.trim()) ? null : 'Enter a whole number'
+                    });
+                    if (tail !== undefined) {
+                        logs.updateQuery(target, { tail: parseInt(tail.trim(), 10) });
+                    }
+                    break;
+                }
+                case 'since': {
+                    const since = await vscode.window.showInputBox({
+                        prompt: 'Show lines logged since a duration ago (30s, 10m, 2h, 1d) or a date; leave empty for any time. Only lines with a timestamp can be filtered out',
+                        placeHolder: '10m',
+                        value: query.since,
+                        validateInput: (value) => !value.trim() || parseSince(value) ? null : 'Enter a duration such as 10m or a date'
+                    });
+                    if (since !== undefined) {
+                        logs.updateQuery(target, { since: since.trim() });
+                    }
+                    break;
+                }
+                case 'timestamps':
+                    logs.updateQuery(target, { timestamps: !query.timestamps });
+                    break;
+                case 'reload':
+                    logs.reload(target);
+                    break;
+            }
+        })
+    );
+
+    // Save the shown log lines to a file
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.saveLogs', async (uri?: vscode.Uri) => {
+            const target = resolveLogUri(uri);
+            if (!target) {
+                return;
+            }
+
+            const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const fileName = path.posix.basename(target.path);
+            const destination = await vscode.window.showSaveDialog({
+                defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+                filters: { 'Log Files': ['log', 'txt'], 'All Files': ['*'] },
+                saveLabel: 'Save Logs'
+            });
+            if (!destination) {
+                return;
+            }
+
+            try {
+                await vscode.workspace.fs.writeFile(destination, Buffer.from(`${logs.getText(target)}\n`, 'utf8'));
+                vscode.window.showInformationMessage(`Logs saved to ${destination.fsPath}`);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                vscode.window.showErrorMessage(`Failed to save logs: ${message}`);
+            }
+        })
+    );
+
+    // Combined log terminals, so pause and resume can find the active one
+    const aggregatedTerminals = new Map<vscode.Terminal, AggregatedLogTerminal>();
+    context.subscriptions.push(
+        vscode.window.onDidCloseTerminal(terminal => aggregatedTerminals.delete(terminal))
+    );
+
+    // Pick containers when the command is not invoked from the tree
+    const pickLogSources = async (): Promise<LogSource[]> => {
+        const containers = await cli.listContainers(true);
+        if (containers.length === 0) {
+            vscode.window.showInformationMessage('No containers found');
+            return [];
+        }
+        const selected = await vscode.window.showQuickPick(
+            containers.map(c => ({
+                label: c.name || c.id.substring(0, 12),
+                description: `${c.image} · ${c.status}`,
+                picked: c.status === ContainerStatus.Running,
+                container: c
+            })),
+            { placeHolder: 'Select the containers whose logs to combine', canPickMany: true }
+        );
+        return (selected ?? []).map(s => ({ id: s.container.id, name: s.label }));
+    };
+
+    // Stream the logs of several containers into one terminal
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.viewCombinedLogs', async (item?: ContainerItem | ContainerGroupItem, selected?: unknown) => {
+            let title: string | undefined;
+            let sources: LogSource[];
+            if (item instanceof ContainerGroupItem) {
+                title = item.label as string;
+                sources = item.group.containers.map(c => ({ id: c.id, name: c.name || c.id.substring(0, 12) }));
+            } else {
+                sources = resolveSelection(item, selected, isContainerItem)
+                    .map(i => ({ id: i.container.id, name: i.container.name || i.container.id.substring(0, 12) }));
+                if (sources.length === 0) {
+                    sources = await pickLogSources();
+                }
+            }
+            if (sources.length === 0) {
+                return;
+            }
+
+            const pty = new AggregatedLogTerminal(cli, sources);
+            const terminal = vscode.window.createTerminal({
+                name: `Logs: ${title ?? sources.map(s => s.name).join(', ')}`,
+                pty,
+                iconPath: new vscode.ThemeIcon('output')
+            });
+            aggregatedTerminals.set(terminal, pty);
+            terminal.show();
+        })
+    );
+
+    // Pause or resume the active combined log terminal
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.toggleCombinedLogsPaused', () => {
+            const terminal = vscode.window.activeTerminal;
+            const pty = terminal && aggregatedTerminals.get(terminal);
+            if (!pty) {
+                vscode.window.showErrorMessage('No combined log terminal is active');
+                return;
+            }
+            pty.setPaused(!pty.paused);
+        })
+    );
+}
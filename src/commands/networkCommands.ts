@@ -6,6 +6,10 @@
 import * as vscode from 'vscode';
 import { ContainerCli } from '../cli';
 import { NetworksProvider, NetworkItem } from '../providers/networksProvider';
+import { showCliError } from './cliErrors';
+import { resolveSelection, runBulkOperation } from './bulk';
+
+const isNetworkItem = (value: unknown): value is NetworkItem => value instanceof NetworkItem;
 
 /**
  * Register network commands
@@ -82,14 +86,39 @@ export function registerNetworkCommands(
                 vscode.window.showInformationMessage(`Network created: ${name}`);
                 await networksProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to create network: ${result.error}`);
+                await showCliError(cli, 'create network', result);
             }
         })
     );
 
     // Delete network
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.deleteNetwork', async (item: NetworkItem) => {
+        vscode.commands.registerCommand('appleContainers.deleteNetwork', async (item: NetworkItem, selected?: NetworkItem[]) => {
+            const items = resolveSelection(item, selected, isNetworkItem);
+            if (items.length > 1) {
+                if (cli.config.confirmBeforeDelete) {
+                    const confirm = await vscode.window.showWarningMessage(
+                        `Are you sure you want to delete ${items.length} networks?`,
+                        { modal: true, detail: items.map(i => i.network.name).join('\n') },
+                        'Delete'
+                    );
+                    if (confirm !== 'Delete') {
+                        return;
+                    }
+                }
+
+                await runBulkOperation(cli, items, {
+                    title: 'Deleting networks',
+                    action: 'delete',
+                    pastTense: 'deleted',
+                    noun: 'network',
+                    label: (i) => i.network.name,
+                    run: (i) => cli.deleteNetwork(i.network.id)
+                });
+                await networksProvider.refresh();
+                return;
+            }
+
             const networkId = item?.network?.id;
             const networkName = item?.network?.name;
             if (!networkId) {
@@ -122,7 +151,7 @@ export function registerNetworkCommands(
                 vscode.window.showInformationMessage(`Network deleted: ${networkName}`);
                 await networksProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to delete network: ${result.error}`);
+                await showCliError(cli, 'delete network', result);
             }
         })
     );
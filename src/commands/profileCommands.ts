@@ -0,0 +1,173 @@
+/**
+ * Profile Commands
+ * Handles running, saving and managing run profiles
+ */
+
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { ContainerCli } from '../cli';
+import { ProfileItem } from '../providers/profilesProvider';
+import { RunProfile, RunProfileStore, relativizeProfileOptions, resolveProfileOptions } from '../runProfiles';
+import { RunContainerOptions } from '../types';
+
+/**
+ * Register run profile commands
+ */
+export function registerProfileCommands(
+    context: vscode.ExtensionContext,
+    cli: ContainerCli,
+    profiles: RunProfileStore
+): void {
+    // Pick a profile when the command is not invoked from the tree
+    const resolveProfile = async (item?: ProfileItem): Promise<RunProfile | undefined> => {
+        if (item instanceof ProfileItem) {
+            return item.profile;
+        }
+        if (profiles.profiles.length === 0) {
+            const action = await vscode.window.showInformationMessage(
+                'No run profiles found. Run a container and save its options as a profile.',
+                'Run Container...'
+            );
+            if (action === 'Run Container...') {
+                await vscode.commands.executeCommand('appleContainers.runContainer');
+            }
+            return undefined;
+        }
+        const showFolder = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        const selected = await vscode.window.showQuickPick(
+            profiles.profiles.map(profile => ({
+                label: profile.name,
+                description: showFolder ? `${profile.options.image} · ${profile.folder.name}` : profile.options.image,
+                profile
+            })),
+            { placeHolder: 'Select a run profile' }
+        );
+        return selected?.profile;
+    };
+
+    // Run a saved profile
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.runProfile', async (item?: ProfileItem) => {
+            const profile = await resolveProfile(item);
+            if (!profile) {
+                return;
+            }
+
+            const options = resolveProfileOptions(profile.options, profile.folder.uri.fsPath, os.homedir());
+            await vscode.commands.executeCommand('appleContainers.runContainer', options);
+        })
+    );
+
+    // Save run options as a profile
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.saveRunProfile', async (options?: RunContainerOptions) => {
+            if (!options?.image) {
+                vscode.window.showErrorMessage('No run options to save');
+                return;
+            }
+
+            const folder = (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+                ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Save the profile in which folder?' })
+                : vscode.workspace.workspaceFolders?.[0];
+            if (!folder) {
+                if (!vscode.workspace.workspaceFolders?.length) {
+                    vscode.window.showErrorMessage('Open a folder to save run profiles');
+                }
+                return;
+            }
+
+            const name = await vscode.window.showInputBox({
+                prompt: 'Profile name',
+                placeHolder: 'dev-database',
+                value: options.name,
+                validateInput: (value) => {
+                    if (!value.trim()) {
+                        return 'Profile name is required';
+                    }
+                    return null;
+                }
+            });
+            if (!name) {
+                return;
+            }
+
+            const profileName = name.trim();
+            const exists = profiles.profiles.some(p => p.name === profileName && p.folder.uri.toString() === folder.uri.toString());
+            if (exists) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `A profile named "${profileName}" already exists. Replace it?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (confirm !== 'Replace') {
+                    return;
+                }
+            }
+
+            try {
+                const uri = await profiles.save(folder, profileName, relativizeProfileOptions(options, folder.uri.fsPath));
+                const action = await vscode.window.showInformationMessage(`Saved run profile "${profileName}"`, 'Open File');
+                if (action === 'Open File') {
+                    await openProfile(uri, profileName);
+                }
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                vscode.window.showErrorMessage(`Failed to save run profile: ${message}`);
+            }
+        })
+    );
+
+    // Open the file that defines a profile
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.openProfile', async (item?: ProfileItem) => {
+            const profile = await resolveProfile(item);
+            if (profile) {
+                await openProfile(profile.uri, profile.name);
+            }
+        })
+    );
+
+    // Delete a profile
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.deleteProfile', async (item?: ProfileItem) => {
+            const profile = await resolveProfile(item);
+            if (!profile) {
+                return;
+            }
+
+            if (cli.config.confirmBeforeDelete) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `Are you sure you want to delete run profile "${profile.name}"?`,
+                    { modal: true },
+                    'Delete'
+                );
+                if (confirm !== 'Delete') {
+                    return;
+                }
+            }
+
+            try {
+                await profiles.delete(profile);
+                vscode.window.showInformationMessage(`Run profile "${profile.name}" deleted`);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                vscode.window.showErrorMessage(`Failed to delete run profile: ${message}`);
+            }
+        })
+    );
+
+    // Refresh profiles
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.refreshProfiles', () => profiles.reload())
+    );
+}
+
+/**
+ * Open a profiles file with the cursor on the named profile
+ */
+async function openProfile(uri: vscode.Uri, name: string): Promise<void> {
+    const doc = await vscode.workspace.openTextDocument(uri);
+    const offset = doc.getText().indexOf(JSON.stringify(name));
+    const position = doc.positionAt(Math.max(0, offset));
+    await vscode.window.showTextDocument(doc, { selection: new vscode.Range(position, position) });
+}
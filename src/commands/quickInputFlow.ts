@@ -0,0 +1,167 @@
+/**
+ * Quick Input Flow
+ * Quick pick and input box steps with Back navigation for multi-step wizards
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Thrown out of a step when the user goes back or dismisses the input
+ */
+export class InputFlowAction {
+    static readonly back = new InputFlowAction();
+    static readonly cancel = new InputFlowAction();
+
+    private constructor() { }
+}
+
+/**
+ * Options shared by all steps
+ */
+interface StepOptions {
+    title: string;
+    /** Show a Back button that throws InputFlowAction.back */
+    canGoBack?: boolean;
+}
+
+/**
+ * Options for a single-selection quick pick step
+ */
+export interface PickStepOptions<T extends vscode.QuickPickItem> extends StepOptions {
+    items: T[];
+    placeholder: string;
+    activeItem?: T;
+    /** Offer the typed text as an extra item when it matches nothing */
+    customItem?: (value: string) => T | undefined;
+}
+
+/**
+ * Options for a multi-selection quick pick step
+ */
+export interface PickManyStepOptions<T extends vscode.QuickPickItem> extends StepOptions {
+    items: T[];
+    placeholder: string;
+}
+
+/**
+ * Options for an input box step
+ */
+export interface InputStepOptions extends StepOptions {
+    prompt: string;
+    value?: string;
+    placeholder?: string;
+    /** Return an error message to block acceptance */
+    validate?: (value: string) => string | undefined;
+}
+
+/**
+ * Show a quick pick and resolve with the accepted item
+ */
+export function pickStep<T extends vscode.QuickPickItem>(options: PickStepOptions<T>): Promise<T> {
+    const quickPick = vscode.window.createQuickPick<T>();
+    quickPick.title = options.title;
+    quickPick.placeholder = options.placeholder;
+    quickPick.items = options.items;
+    quickPick.matchOnDescription = true;
+    if (options.activeItem) {
+        quickPick.activeItems = [options.activeItem];
+    }
+    quickPick.buttons = options.canGoBack ? [vscode.QuickInputButtons.Back] : [];
+
+    const customItem = options.customItem;
+    if (customItem) {
+        quickPick.onDidChangeValue((value) => {
+            const custom = value.trim() ? customItem(value.trim()) : undefined;
+            quickPick.items = custom ? [custom, ...options.items] : options.items;
+        });
+    }
+
+    return runStep(quickPick, (resolve) => [
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0];
+            if (selected) {
+                resolve(selected);
+            }
+        })
+    ]);
+}
+
+/**
+ * Show a multi-select quick pick and resolve with the checked items
+ */
+export function pickManyStep<T extends vscode.QuickPickItem>(options: PickManyStepOptions<T>): Promise<T[]> {
+    const quickPick = vscode.window.createQuickPick<T>();
+    quickPick.title = options.title;
+    quickPick.placeholder = options.placeholder;
+    quickPick.canSelectMany = true;
+    quickPick.items = options.items;
+    quickPick.selectedItems = options.items.filter(i => i.picked);
+    quickPick.buttons = options.canGoBack ? [vscode.QuickInputButtons.Back] : [];
+
+    return runStep(quickPick, (resolve) => [
+        quickPick.onDidAccept(() => resolve([...quickPick.selectedItems]))
+    ]);
+}
+
+/**
+ * Show an input box and resolve with the accepted, validated value
+ */
+export function inputStep(options: InputStepOptions): Promise<string> {
+    const input = vscode.window.createInputBox();
+    input.title = options.title;
+    input.prompt = options.prompt;
+    input.placeholder = options.placeholder;
+    input.value = options.value ?? '';
+    input.buttons = options.canGoBack ? [vscode.QuickInputButtons.Back] : [];
+
+    const validate = (value: string) => options.validate?.(value);
+    input.validationMessage = input.value ? validate(input.value) : undefined;
+
+    return runStep(input, (resolve) => [
+        input.onDidChangeValue((value) => {
+            input.validationMessage = validate(value);
+        }),
+        input.onDidAccept(() => {
+            const message = validate(input.value);
+            if (message) {
+                input.validationMessage = message;
+                return;
+            }
+            resolve(input.value);
+        })
+    ]);
+}
+
+/**
+ * Show a quick input and settle on accept, Back or hide
+ */
+function runStep<R>(
+    input: vscode.QuickInput & { onDidTriggerButton: vscode.Event<vscode.QuickInputButton> },
+    listen: (resolve: (value: R) => void) => vscode.Disposable[]
+): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+        let settled = false;
+        const settle = (fn: () => void) => {
+            if (!settled) {
+                settled = true;
+                fn();
+                input.hide();
+            }
+        };
+
+        const disposables = [
+            ...listen((value) => settle(() => resolve(value))),
+            input.onDidTriggerButton((button) => {
+                if (button === vscode.QuickInputButtons.Back) {
+                    settle(() => reject(InputFlowAction.back));
+                }
+            }),
+            input.onDidHide(() => {
+                settle(() => reject(InputFlowAction.cancel));
+                disposables.forEach(d => d.dispose());
+                input.dispose();
+            })
+        ];
+        input.show();
+    });
+}
@@ -0,0 +1,770 @@
+/**
+ * Run Container Wizard
+ * Multi-step quick input collecting every RunContainerOptions field
+ */
+
+import * as net from 'net';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContainerCli, buildRunArgs, formatCommandLine, formatMountSpec, formatPortSpec, terminalRunOptions } from '../cli';
+import { Container, Image, Network, RunContainerOptions, Volume } from '../types';
+import { InputFlowAction, inputStep, pickManyStep, pickStep } from './quickInputFlow';
+
+type PortOption = NonNullable<RunContainerOptions['ports']>[number];
+type VolumeOption = NonNullable<RunContainerOptions['volumes']>[number];
+type MountOption = NonNullable<RunContainerOptions['mounts']>[number];
+
+const TITLE = 'Run Container';
+
+/**
+ * Parse `[hostIp:]hostPort:containerPort[/protocol]`
+ * @returns the port, or an error message
+ */
+export function parsePortSpec(value: string): PortOption | string {
+    const match = /^(?:(.+):)?(\d+):(\d+)(?:\/(tcp|udp))?$/i.exec(value.trim());
+    if (!match) {
+        return 'Use hostPort:containerPort, e.g. 8080:80, 127.0.0.1:8080:80 or 5353:53/udp';
+    }
+    const [, hostIp, host, container, protocol] = match;
+    const hostPort = parseInt(host, 10);
+    const containerPort = parseInt(container, 10);
+    if (hostPort < 1 || hostPort > 65535 || containerPort < 1 || containerPort > 65535) {
+        return 'Ports must be between 1 and 65535';
+    }
+    const ip = hostIp?.replace(/^\[(.*)\]$/, '$1');
+    if (ip && net.isIP(ip) === 0) {
+        return `"${hostIp}" is not a valid IP address`;
+    }
+    return {
+        host: hostPort,
+        container: containerPort,
+        hostIp: ip || undefined,
+        protocol: (protocol?.toLowerCase() as 'tcp' | 'udp' | undefined) ?? 'tcp'
+    };
+}
+
+/**
+ * Parse `KEY=value`
+ * @returns the pair, or an error message
+ */
+export function parseKeyValue(value: string): [string, string] | string {
+    const index = value.indexOf('=');
+    const key = index === -1 ? value.trim() : value.substring(0, index).trim();
+    if (!key) {
+        return 'Use KEY=value';
+    }
+    if (/\s/.test(key)) {
+        return 'The key must not contain whitespace';
+    }
+    return [key, index === -1 ? '' : value.substring(index + 1)];
+}
+
+/**
+ * Parse `--mount` style `type=...,source=...,target=...[,readonly]`
+ * @returns the mount, or an error message
+ */
+export function parseMountSpec(value: string): MountOption | string {
+    const fields = new Map<string, string>();
+    let readonly = false;
+    for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+        const [key, ...rest] = part.split('=');
+        if (rest.length === 0) {
+            if (key === 'readonly' || key === 'ro') {
+                readonly = true;
+                continue;
+            }
+            return `Unexpected "${part}"`;
+        }
+        fields.set(key === 'src' ? 'source' : key === 'dst' || key === 'destination' ? 'target' : key, rest.join('='));
+    }
+
+    const type = fields.get('type') ?? 'bind';
+    if (type !== 'bind' && type !== 'volume' && type !== 'tmpfs') {
+        return 'type must be bind, volume or tmpfs';
+    }
+    const target = fields.get('target');
+    if (!target || !target.startsWith('/')) {
+        return 'target must be an absolute path inside the container';
+    }
+    const source = fields.get('source') ?? '';
+    if (type !== 'tmpfs' && !source) {
+        return `source is required for ${type} mounts`;
+    }
+    return { type, source, target, readonly };
+}
+
+/**
+ * Split a command line into arguments, honouring single and double quotes
+ */
+export function splitCommandLine(value: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let quote: string | undefined;
+    let hasToken = false;
+
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            } else if (char === '\\' && quote === '"' && i + 1 < value.length) {
+                current += value[++i];
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+            hasToken = true;
+        } else if (char === '\\' && i + 1 < value.length) {
+            current += value[++i];
+            hasToken = true;
+        } else if (/\s/.test(char)) {
+            if (hasToken) {
+                args.push(current);
+                current = '';
+                hasToken = false;
+            }
+        } else {
+            current += char;
+            hasToken = true;
+        }
+    }
+    if (hasToken) {
+        args.push(current);
+    }
+    return args;
+}
+
+/**
+ * Validate a container name
+ */
+export function validateContainerName(value: string, existingNames: string[] = []): string | undefined {
+    const name = value.trim();
+    if (!name) {
+        return undefined;
+    }
+    if (!/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/.test(name)) {
+        return 'Names start with a letter or digit and may contain letters, digits, "_", "." and "-"';
+    }
+    if (existingNames.includes(name)) {
+        return `A container named "${name}" already exists`;
+    }
+    return undefined;
+}
+
+/**
+ * Validate a memory limit such as 512M or 2G
+ */
+export function validateMemory(value: string): string | undefined {
+    if (!value.trim() || /^\d+(\.\d+)?\s*[kmgt]?i?b?$/i.test(value.trim())) {
+        return undefined;
+    }
+    return 'Use a size such as 512M or 2G';
+}
+
+/**
+ * Validate a CPU count
+ */
+export function validateCpus(value: string): string | undefined {
+    if (!value.trim()) {
+        return undefined;
+    }
+    const cpus = Number(value);
+    return Number.isInteger(cpus) && cpus > 0 ? undefined : 'Enter a whole number of CPUs greater than 0';
+}
+
+/**
+ * Validate an absolute path inside the container
+ */
+function validateContainerPath(value: string): string | undefined {
+    return !value.trim() || value.trim().startsWith('/') ? undefined : 'Enter an absolute path, e.g. /app';
+}
+
+/**
+ * Resources offered by the wizard pickers
+ */
+interface WizardResources {
+    images: Image[];
+    networks: Network[];
+    volumes: Volume[];
+}
+
+type HubItem = vscode.QuickPickItem & { edit?: () => Promise<void>; run?: boolean };
+
+/**
+ * Walk the user through all run options
+ * Back returns to the previous step; the final step lists every option with a command line preview
+ * @param existing Containers whose names are already taken
+ * @param initial Options to start from
+ * @returns the options to run with, or undefined when cancelled
+ */
+export async function runContainerWizard(
+    cli: ContainerCli,
+    existing: readonly Container[],
+    initial: Partial<RunContainerOptions> = {}
+): Promise<RunContainerOptions | undefined> {
+    const [images, networks, volumes] = await Promise.all([
+        cli.listImages(),
+        cli.listNetworks(),
+        cli.listVolumes()
+    ]);
+    const resources: WizardResources = { images, networks, volumes };
+    const existingNames = existing.map(c => c.name).filter(Boolean);
+    const options: RunContainerOptions = {
+        image: '',
+        detach: true,
+        ...initial
+    };
+
+    // Image and name come first; the remaining options are edited from the summary step
+    const steps = [
+        () => pickImage(options, resources),
+        () => inputName(options, existingNames),
+        () => summary(cli, options, resources)
+    ];
+    let step = initial.image ? 1 : 0;
+    while (step < steps.length) {
+        try {
+            await steps[step]();
+            step++;
+        } catch (err) {
+            if (err === InputFlowAction.back) {
+                step = Math.max(0, step - 1);
+            } else if (err === InputFlowAction.cancel) {
+                return undefined;
+            } else {
+                throw err;
+            }
+        }
+    }
+    return options;
+}
+
+/**
+ * Pick a local image or type any reference
+ */
+async function pickImage(options: RunContainerOptions, resources: WizardResources): Promise<void> {
+    type ImagePick = vscode.QuickPickItem & { reference: string };
+    const items: ImagePick[] = resources.images
+        .filter(i => i.repository && i.repository !== '<none>')
+        .map(i => ({ label: `${i.repository}:${i.tag || 'latest'}`, description: i.size, reference: `${i.repository}:${i.tag || 'latest'}` }));
+
+    const selected = await pickStep<ImagePick>({
+        title: `${TITLE}: Image`,
+        placeholder: 'Select a local image or type a reference such as nginx:latest',
+        items,
+        activeItem: items.find(i => i.reference === options.image),
+        customItem: (value) => items.some(i => i.reference === value) || /\s/.test(value)
+            ? undefined
+            : { label: value, description: 'Use this image reference', reference: value }
+    });
+    options.image = selected.reference;
+}
+
+/**
+ * Enter an optional container name
+ */
+async function inputName(options: RunContainerOptions, existingNames: string[]): Promise<void> {
+    const name = await inputStep({
+        title: `${TITLE}: Name`,
+        prompt: 'Container name (optional, leave empty for a generated name)',
+        placeholder: 'my-container',
+        value: options.name,
+        canGoBack: true,
+        validate: (value) => validateContainerName(value, existingNames)
+    });
+    options.name = name.trim() || undefined;
+}
+
+/**
+ * Summary of every option; selecting one edits it, selecting Run finishes
+ */
+async function summary(cli: ContainerCli, options: RunContainerOptions, resources: WizardResources): Promise<void> {
+    for (;;) {
+        const runArgs = buildRunArgs(options.detach ? options : terminalRunOptions(options));
+        const preview = formatCommandLine(cli.config.containerPath, runArgs);
+        const items: HubItem[] = [
+            { label: '$(play) Run', description: options.image, detail: preview, run: true },
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            {
+                label: '$(terminal) Mode',
+                description: options.detach ? 'Detached (background)' : 'Interactive terminal',
+                edit: () => editMode(options)
+            },
+            {
+                label: '$(settings) Flags',
+                description: describeFlags(options),
+                edit: () => editFlags(options)
+            },
+            {
+                label: '$(plug) Ports',
+                description: describeList(options.ports?.map(formatPortSpec)),
+                edit: () => editPorts(options)
+            },
+            {
+                label: '$(symbol-variable) Environment',
+                description: describeList(Object.keys(options.env ?? {})),
+                edit: () => editRecord(options, 'env', 'Environment variable', 'KEY=value')
+            },
+            {
+                label: '$(file) Environment File',
+                description: options.envFile ?? 'None',
+                edit: () => editEnvFile(options)
+            },
+            {
+                label: '$(database) Volumes',
+                description: describeList(options.volumes?.map(v => `${v.source}:${v.target}${v.readonly ? ':ro' : ''}`)),
+                edit: () => editVolumes(options, resources.volumes)
+            },
+            {
+                label: '$(folder-library) Mounts',
+                description: describeList(options.mounts?.map(formatMountSpec)),
+                edit: () => editMounts(options)
+            },
+            {
+                label: '$(globe) Network',
+                description: options.network ?? 'Default',
+                edit: () => editNetwork(options, resources.networks)
+            },
+            {
+                label: '$(folder) Working Directory',
+                description: options.workdir ?? 'Image default',
+                edit: () => editText(options, 'workdir', 'Working directory inside the container', '/app', validateContainerPath)
+            },
+            {
+                label: '$(person) User',
+                description: options.user ?? 'Image default',
+                edit: () => editText(options, 'user', 'User name or UID, optionally with a group', '1000:1000',
+                    (value) => !value || /^[\w.-]+(:[\w.-]+)?$/.test(value) ? undefined : 'Use user or user:group')
+            },
+            {
+                label: '$(chip) CPUs',
+                description: options.cpus?.toString() ?? 'Default',
+                edit: () => editCpus(options)
+            },
+            {
+                label: '$(server) Memory',
+                description: options.memory ?? 'Default',
+                edit: () => editText(options, 'memory', 'Memory limit', '1G', validateMemory)
+            },
+            {
+                label: '$(device-desktop) Platform',
+                description: options.platform ?? 'Default',
+                edit: () => editPlatform(options)
+            },
+            {
+                label: '$(debug-start) Entrypoint',
+                description: options.entrypoint ?? 'Image default',
+                edit: () => editText(options, 'entrypoint', 'Entrypoint executable', '/bin/sh')
+            },
+            {
+                label: '$(code) Command',
+                description: options.cmd?.length ? formatCommandLine(options.cmd[0], options.cmd.slice(1)) : 'Image default',
+                edit: () => editCommand(options)
+            },
+            {
+                label: '$(tag) Labels',
+                description: describeList(Object.keys(options.labels ?? {})),
+                edit: () => editRecord(options, 'labels', 'Label', 'key=value')
+            },
+            {
+                label: '$(server-environment) DNS Servers',
+                description: describeList(options.dns),
+                edit: () => editStrings(options, 'dns', 'DNS server', '1.1.1.1',
+                    (value) => net.isIP(value.trim()) ? undefined : 'Enter an IPv4 or IPv6 address')
+            },
+            {
+                label: '$(search) DNS Search Domains',
+                description: describeList(options.dnsSearch),
+                edit: () => editStrings(options, 'dnsSearch', 'DNS search domain', 'example.internal',
+                    (value) => /^[a-z0-9.-]+$/i.test(value.trim()) ? undefined : 'Enter a domain name')
+            }
+        ];
+
+        const selected = await pickStep<HubItem>({
+            title: `${TITLE}: ${options.name || options.image}`,
+            placeholder: 'Select an option to change it, or Run',
+            items,
+            canGoBack: true
+        });
+        if (selected.run) {
+            return;
+        }
+        try {
+            await selected.edit?.();
+        } catch (err) {
+            // Back or Escape in an option returns to this summary, keeping everything entered so far
+            if (err !== InputFlowAction.back && err !== InputFlowAction.cancel) {
+                throw err;
+            }
+        }
+    }
+}
+
+/**
+ * Summarise a list option for the summary step
+ */
+function describeList(values: string[] | undefined): string {
+    return values && values.length > 0 ? values.join(', ') : 'None';
+}
+
+/**
+ * Summarise the boolean flags for the summary step
+ */
+function describeFlags(options: RunContainerOptions): string {
+    const flags = [
+        options.remove ? '--rm' : undefined,
+        options.ssh ? '--ssh' : undefined,
+        options.rosetta ? '--rosetta' : undefined
+    ].filter(Boolean);
+    return flags.length > 0 ? flags.join(' ') : 'None';
+}
+
+/**
+ * Choose between a detached and an interactive run
+ */
+async function editMode(options: RunContainerOptions): Promise<void> {
+    const items = [
+        { label: 'Detached', description: 'Run in the background (--detach)', detach: true },
+        { label: 'Interactive terminal', description: 'Open a terminal attached to the container (-it)', detach: false }
+    ];
+    const selected = await pickStep({
+        title: `${TITLE}: Mode`,
+        placeholder: 'How should the container run?',
+        items,
+        activeItem: items.find(i => i.detach === !!options.detach),
+        canGoBack: true
+    });
+    options.detach = selected.detach;
+    options.interactive = !selected.detach;
+    options.tty = !selected.detach;
+}
+
+/**
+ * Toggle --rm, --ssh and --rosetta
+ */
+async function editFlags(options: RunContainerOptions): Promise<void> {
+    const items = [
+        { label: '$(trash) Remove on exit (--rm)', key: 'remove' as const, picked: !!options.remove },
+        { label: '$(key) Forward SSH agent (--ssh)', key: 'ssh' as const, picked: !!options.ssh },
+        { label: '$(chip) Enable Rosetta (--rosetta)', key: 'rosetta' as const, picked: !!options.rosetta }
+    ];
+    const selected = await pickManyStep({
+        title: `${TITLE}: Flags`,
+        placeholder: 'Select flags',
+        items,
+        canGoBack: true
+    });
+    for (const item of items) {
+        options[item.key] = selected.includes(item) || undefined;
+    }
+}
+
+/**
+ * Edit a list: select an entry to remove it, or add a new one
+ */
+async function editList<T>(
+    title: string,
+    entries: T[],
+    format: (entry: T) => string,
+    add: () => Promise<T>
+): Promise<T[]> {
+    type ListPick = vscode.QuickPickItem & { action: 'add' | 'done' | 'remove'; index?: number };
+    let current = [...entries];
+    for (;;) {
+        const items: ListPick[] = [
+            { label: '$(check) Done', description: `${current.length} configured`, action: 'done' },
+            { label: '$(add) Add...', action: 'add' },
+            ...current.map((entry, index) => ({
+                label: `$(close) ${format(entry)}`,
+                description: 'Select to remove',
+                action: 'remove' as const,
+                index
+            }))
+        ];
+        const selected = await pickStep<ListPick>({
+            title: `${TITLE}: ${title}`,
+            placeholder: 'Add or remove entries',
+            items,
+            canGoBack: true
+        });
+        if (selected.action === 'done') {
+            return current;
+        }
+        if (selected.action === 'remove') {
+            current = current.filter((_, index) => index !== selected.index);
+            continue;
+        }
+        try {
+            current.push(await add());
+        } catch (err) {
+            if (err !== InputFlowAction.back) {
+                throw err;
+            }
+        }
+    }
+}
+
+/**
+ * Edit published ports
+ */
+async function editPorts(options: RunContainerOptions): Promise<void> {
+    const ports = await editList('Ports', options.ports ?? [], formatPortSpec, async () => {
+        const value = await inputStep({
+            title: `${TITLE}: Add Port`,
+            prompt: 'Publish a port as [hostIp:]hostPort:containerPort[/tcp|udp]',
+            placeholder: '8080:80',
+            canGoBack: true,
+            validate: (v) => {
+                const parsed = parsePortSpec(v);
+                return typeof parsed === 'string' ? parsed : undefined;
+            }
+        });
+        return parsePortSpec(value) as PortOption;
+    });
+    options.ports = ports.length > 0 ? ports : undefined;
+}
+
+/**
+ * Edit environment variables or labels as KEY=value pairs
+ */
+async function editRecord(
+    options: RunContainerOptions,
+    key: 'env' | 'labels',
+    noun: string,
+    placeholder: string
+): Promise<void> {
+    const entries = Object.entries(options[key] ?? {});
+    const edited = await editList(`${noun}s`, entries, ([k, v]) => `${k}=${v}`, async () => {
+        const value = await inputStep({
+            title: `${TITLE}: Add ${noun}`,
+            prompt: `${noun} as ${placeholder}`,
+            placeholder,
+            canGoBack: true,
+            validate: (v) => {
+                const parsed = parseKeyValue(v);
+                return typeof parsed === 'string' ? parsed : undefined;
+            }
+        });
+        return parseKeyValue(value) as [string, string];
+    });
+    options[key] = edited.length > 0 ? Object.fromEntries(edited) : undefined;
+}
+
+/**
+ * Edit a list of plain strings such as DNS servers
+ */
+async function editStrings(
+    options: RunContainerOptions,
+    key: 'dns' | 'dnsSearch',
+    noun: string,
+    placeholder: string,
+    validate: (value: string) => string | undefined
+): Promise<void> {
+    const values = await editList(`${noun}s`, options[key] ?? [], (v) => v, async () => {
+        const value = await inputStep({
+            title: `${TITLE}: Add ${noun}`,
+            prompt: noun,
+            placeholder,
+            canGoBack: true,
+            validate
+        });
+        return value.trim();
+    });
+    options[key] = values.length > 0 ? values : undefined;
+}
+
+/**
+ * Edit a single optional text option
+ */
+async function editText(
+    options: RunContainerOptions,
+    key: 'workdir' | 'user' | 'memory' | 'entrypoint',
+    prompt: string,
+    placeholder: string,
+    validate?: (value: string) => string | undefined
+): Promise<void> {
+    const value = await inputStep({
+        title: TITLE,
+        prompt: `${prompt} (leave empty for the default)`,
+        placeholder,
+        value: options[key],
+        canGoBack: true,
+        validate
+    });
+    options[key] = value.trim() || undefined;
+}
+
+/**
+ * Edit the CPU limit
+ */
+async function editCpus(options: RunContainerOptions): Promise<void> {
+    const value = await inputStep({
+        title: TITLE,
+        prompt: 'Number of CPUs (leave empty for the default)',
+        placeholder: '2',
+        value: options.cpus?.toString(),
+        canGoBack: true,
+        validate: validateCpus
+    });
+    options.cpus = value.trim() ? Number(value) : undefined;
+}
+
+/**
+ * Edit the command passed after the image
+ */
+async function editCommand(options: RunContainerOptions): Promise<void> {
+    const value = await inputStep({
+        title: TITLE,
+        prompt: 'Command and arguments passed after the image (leave empty for the image default)',
+        placeholder: 'npm run dev',
+        value: options.cmd ? formatCommandLine(options.cmd[0], options.cmd.slice(1)) : '',
+        canGoBack: true
+    });
+    const cmd = splitCommandLine(value);
+    options.cmd = cmd.length > 0 ? cmd : undefined;
+}
+
+/**
+ * Choose or clear the environment file
+ */
+async function editEnvFile(options: RunContainerOptions): Promise<void> {
+    const items = [
+        { label: '$(folder-opened) Choose File...', action: 'choose' },
+        { label: '$(close) None', action: 'clear' }
+    ];
+    const selected = await pickStep({
+        title: `${TITLE}: Environment File`,
+        placeholder: options.envFile ?? 'No environment file',
+        items,
+        canGoBack: true
+    });
+    if (selected.action === 'clear') {
+        options.envFile = undefined;
+        return;
+    }
+    const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        openLabel: 'Use Environment File'
+    });
+    if (uris?.[0]) {
+        options.envFile = uris[0].fsPath;
+    }
+}
+
+/**
+ * Edit volumes, picking named volumes or host folders
+ */
+async function editVolumes(options: RunContainerOptions, volumes: Volume[]): Promise<void> {
+    const format = (v: VolumeOption) => `${v.source}:${v.target}${v.readonly ? ':ro' : ''}`;
+    const edited = await editList('Volumes', options.volumes ?? [], format, async () => {
+        type SourcePick = vscode.QuickPickItem & { source?: string };
+        const sourceItems: SourcePick[] = [
+            { label: '$(folder-opened) Bind a Host Folder...' },
+            ...volumes.map(v => ({ label: `$(database) ${v.name}`, description: v.driver, source: v.name }))
+        ];
+        const picked = await pickStep<SourcePick>({
+            title: `${TITLE}: Volume Source`,
+            placeholder: 'Select a named volume or bind a host folder',
+            items: sourceItems,
+            canGoBack: true,
+            customItem: (value) => ({ label: value, description: 'Use this volume name or host path', source: value })
+        });
+
+        let source = picked.source;
+        if (!source) {
+            const uris = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                openLabel: 'Bind Folder'
+            });
+            if (!uris?.[0]) {
+                throw InputFlowAction.back;
+            }
+            source = uris[0].fsPath;
+        }
+
+        const target = await inputStep({
+            title: `${TITLE}: Volume Target`,
+            prompt: `Path inside the container for ${source}`,
+            placeholder: path.isAbsolute(source) ? `/${path.basename(source)}` : '/data',
+            canGoBack: true,
+            validate: (v) => v.trim() ? validateContainerPath(v) : 'A target path is required'
+        });
+        const access = await pickStep({
+            title: `${TITLE}: Volume Access`,
+            placeholder: 'Mount access',
+            items: [
+                { label: 'Read-write', readonly: false },
+                { label: 'Read-only', readonly: true }
+            ],
+            canGoBack: true
+        });
+        return { source, target: target.trim(), readonly: access.readonly || undefined };
+    });
+    options.volumes = edited.length > 0 ? edited : undefined;
+}
+
+/**
+ * Edit --mount entries
+ */
+async function editMounts(options: RunContainerOptions): Promise<void> {
+    const mounts = await editList('Mounts', options.mounts ?? [], formatMountSpec, async () => {
+        const value = await inputStep({
+            title: `${TITLE}: Add Mount`,
+            prompt: 'Mount as type=bind|volume|tmpfs,source=...,target=...[,readonly]',
+            placeholder: 'type=tmpfs,target=/tmp',
+            canGoBack: true,
+            validate: (v) => {
+                const parsed = parseMountSpec(v);
+                return typeof parsed === 'string' ? parsed : undefined;
+            }
+        });
+        return parseMountSpec(value) as MountOption;
+    });
+    options.mounts = mounts.length > 0 ? mounts : undefined;
+}
+
+/**
+ * Pick a network from the existing ones
+ */
+async function editNetwork(options: RunContainerOptions, networks: Network[]): Promise<void> {
+    const items: Array<vscode.QuickPickItem & { network?: string }> = [
+        { label: 'Default', description: 'Use the default network' },
+        ...networks.map(n => ({
+            label: n.name,
+            description: n.ipam?.config?.[0]?.subnet ?? n.driver,
+            network: n.name
+        }))
+    ];
+    const selected = await pickStep({
+        title: `${TITLE}: Network`,
+        placeholder: 'Attach the container to a network',
+        items,
+        activeItem: items.find(i => i.network === options.network),
+        canGoBack: true
+    });
+    options.network = selected.network;
+}
+
+/**
+ * Pick the platform to run
+ */
+async function editPlatform(options: RunContainerOptions): Promise<void> {
+    const items: Array<vscode.QuickPickItem & { platform?: string }> = [
+        { label: 'Default', description: 'Match the host' },
+        { label: 'linux/arm64', description: 'Apple Silicon native', platform: 'linux/arm64' },
+        { label: 'linux/amd64', description: 'Intel, emulated with Rosetta', platform: 'linux/amd64' }
+    ];
+    const selected = await pickStep({
+        title: `${TITLE}: Platform`,
+        placeholder: 'Platform to run',
+        items,
+        activeItem: items.find(i => i.platform === options.platform),
+        canGoBack: true
+    });
+    options.platform = selected.platform;
+}
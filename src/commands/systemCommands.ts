@@ -0,0 +1,142 @@
+/**
+ * System Commands
+ * Handles container system service commands
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli } from '../cli';
+import { ContainerStateStore } from '../stateStore';
+import { SystemServiceState } from '../types';
+import { SystemOverviewPanel } from '../panels/systemOverviewPanel';
+import { StatsPanel } from '../panels/statsPanel';
+import { showCliError } from './cliErrors';
+
+/**
+ * Register system service commands
+ */
+export function registerSystemCommands(
+    context: vscode.ExtensionContext,
+    cli: ContainerCli,
+    stateStore: ContainerStateStore
+): void {
+    // Start system service
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.startSystem', async () => {
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Starting container system service...',
+                    cancellable: true
+                },
+                async (_progress, token) => cli.startSystem(token)
+            );
+
+            if (result.success) {
+                vscode.window.showInformationMessage('Container system service started');
+                await stateStore.refresh();
+            } else {
+                await showCliError(cli, 'start container system service', result);
+            }
+        })
+    );
+
+    // Stop system service
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.stopSystem', async () => {
+            const confirm = await vscode.window.showWarningMessage(
+                'Stopping the container system service will stop all running containers. Continue?',
+                { modal: true },
+                'Stop'
+            );
+            if (confirm !== 'Stop') {
+                return;
+            }
+
+            const result = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Stopping container system service...',
+                    cancellable: true
+                },
+                async (_progress, token) => cli.stopSystem(token)
+            );
+
+            if (result.success) {
+                vscode.window.showInformationMessage('Container system service stopped');
+                await stateStore.refresh();
+            } else {
+                await showCliError(cli, 'stop container system service', result);
+            }
+        })
+    );
+
+    // Show system service status
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.systemStatus', async () => {
+            const [state, version] = await Promise.all([
+                cli.getSystemStatus(),
+                cli.getVersion()
+            ]);
+
+            const versionText = version ? ` (${version})` : '';
+            switch (state) {
+                case SystemServiceState.Running: {
+                    const action = await vscode.window.showInformationMessage(
+                        `Container system service is running${versionText}`,
+                        'Stop'
+                    );
+                    if (action === 'Stop') {
+                        await vscode.commands.executeCommand('appleContainers.stopSystem');
+                    }
+                    break;
+                }
+                case SystemServiceState.Stopped: {
+                    const action = await vscode.window.showWarningMessage(
+                        `Container system service is not running${versionText}`,
+                        'Start'
+                    );
+                    if (action === 'Start') {
+                        await vscode.commands.executeCommand('appleContainers.startSystem');
+                    }
+                    break;
+                }
+                case SystemServiceState.NotInstalled: {
+                    const action = await vscode.window.showErrorMessage(
+                        `Container CLI not found at "${cli.config.containerPath}"`,
+                        'Open Settings'
+                    );
+                    if (action === 'Open Settings') {
+                        await vscode.commands.executeCommand(
+                            'workbench.action.openSettings',
+                            'appleContainers.containerPath'
+                        );
+                    }
+                    break;
+                }
+                default: {
+                    const action = await vscode.window.showWarningMessage(
+                        'Unable to determine the container system service status',
+                        'Show Output'
+                    );
+                    if (action === 'Show Output') {
+                        cli.showOutput();
+                    }
+                }
+            }
+        })
+    );
+
+    // Show system overview dashboard
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.systemOverview', () => {
+            SystemOverviewPanel.show(cli, stateStore);
+        })
+    );
+
+    // Live stats of all running containers, optionally highlighting one
+    context.subscriptions.push(
+        vscode.commands.registerCommand('appleContainers.showStatsDashboard', (containerId?: string) => {
+            StatsPanel.show(cli, stateStore, typeof containerId === 'string' ? containerId : undefined);
+        })
+    );
+}
@@ -6,6 +6,10 @@
 import * as vscode from 'vscode';
 import { ContainerCli } from '../cli';
 import { VolumesProvider, VolumeItem } from '../providers/volumesProvider';
+import { showCliError } from './cliErrors';
+import { resolveSelection, runBulkOperation } from './bulk';
+
+const isVolumeItem = (value: unknown): value is VolumeItem => value instanceof VolumeItem;
 
 /**
  * Register volume commands
@@ -49,14 +53,44 @@ export function registerVolumeCommands(
                 vscode.window.showInformationMessage(`Volume created: ${name}`);
                 await volumesProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to create volume: ${result.error}`);
+                await showCliError(cli, 'create volume', result);
             }
         })
     );
 
     // Delete volume
     context.subscriptions.push(
-        vscode.commands.registerCommand('appleContainers.deleteVolume', async (item: VolumeItem) => {
+        vscode.commands.registerCommand('appleContainers.deleteVolume', async (item: VolumeItem, selected?: VolumeItem[]) => {
+            const items = resolveSelection(item, selected, isVolumeItem);
+            if (items.length > 1) {
+                if (cli.config.confirmBeforeDelete) {
+                    const confirm = await vscode.window.showWarningMessage(
+                        `Are you sure you want to delete ${items.length} volumes? This will remove all data in them.`,
+                        { modal: true, detail: items.map(i => i.volume.name).join('\n') },
+                        'Delete'
+                    );
+                    if (confirm !== 'Delete') {
+                        return;
+                    }
+                }
+
+                const deleteVolumes = async (targets: VolumeItem[], force: boolean): Promise<void> => {
+                    await runBulkOperation(cli, targets, {
+                        title: 'Deleting volumes',
+                        action: 'delete',
+                        pastTense: 'deleted',
+                        noun: 'volume',
+                        label: (i) => i.volume.name,
+                        run: (i) => cli.deleteVolume(i.volume.name, force),
+                        force: force ? undefined : (inUse) => deleteVolumes(inUse, true)
+                    });
+                    await volumesProvider.refresh();
+                };
+
+                await deleteVolumes(items, false);
+                return;
+            }
+
             const volumeName = item?.volume?.name;
             if (!volumeName) {
                 vscode.window.showErrorMessage('No volume selected');
@@ -75,21 +109,27 @@ export function registerVolumeCommands(
                 }
             }
 
-            const result = await vscode.window.withProgress(
-                {
-                    location: vscode.ProgressLocation.Notification,
-                    title: `Deleting volume ${volumeName}...`,
-                    cancellable: false
-                },
-                async () => cli.deleteVolume(volumeName, true)
-            );
+            const deleteVolume = async (force: boolean): Promise<void> => {
+                const result = await vscode.window.withProgress(
+                    {
+                        location: vscode.ProgressLocation.Notification,
+                        title: `Deleting volume ${volumeName}...`,
+                        cancellable: false
+                    },
+                    async () => cli.deleteVolume(volumeName, force)
+                );
 
-            if (result.success) {
-                vscode.window.showInformationMessage(`Volume deleted: ${volumeName}`);
-                await volumesProvider.refresh();
-            } else {
-                vscode.window.showErrorMessage(`Failed to delete volume: ${result.error}`);
-            }
+                if (result.success) {
+                    vscode.window.showInformationMessage(`Volume deleted: ${volumeName}`);
+                    await volumesProvider.refresh();
+                } else {
+                    await showCliError(cli, 'delete volume', result, {
+                        force: force ? undefined : () => deleteVolume(true)
+                    });
+                }
+            };
+
+            await deleteVolume(false);
         })
     );
 
@@ -142,7 +182,7 @@ export function registerVolumeCommands(
                 vscode.window.showInformationMessage('Volumes pruned successfully');
                 await volumesProvider.refresh();
             } else {
-                vscode.window.showErrorMessage(`Failed to prune volumes: ${result.error}`);
+                await showCliError(cli, 'prune volumes', result);
             }
         })
     );
@@ -0,0 +1,212 @@
+/**
+ * Container Lifecycle Events
+ * Diffs successive container snapshots into typed lifecycle events
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli, isContainerActive } from './cli';
+import { ContainerStateStore } from './stateStore';
+import { ContainerItem } from './providers/containersProvider';
+import { Container } from './types';
+
+// How long a requested stop explains a container stopping; a restart may finish between polls and never show one
+const EXPECTED_STOP_MS = 60000;
+
+/**
+ * Kinds of container lifecycle events
+ */
+export enum ContainerEventType {
+    Created = 'created',
+    Started = 'started',
+    Stopped = 'stopped',
+    ExitedWithError = 'exitedWithError',
+    Removed = 'removed'
+}
+
+/**
+ * A change in a container's lifecycle between two snapshots
+ */
+export interface ContainerEvent {
+    type: ContainerEventType;
+    container: Container;
+    /** Exit code reported by inspect, for stop events */
+    exitCode?: number;
+    /** True when the stop was not requested through this extension */
+    unexpected?: boolean;
+}
+
+/**
+ * Compute lifecycle events between two container lists
+ * Stops are reported as Stopped; exit codes are resolved separately
+ */
+export function diffContainers(previous: Container[], next: Container[]): ContainerEvent[] {
+    const events: ContainerEvent[] = [];
+    const before = new Map(previous.map(c => [c.id, c]));
+    const after = new Map(next.map(c => [c.id, c]));
+
+    for (const container of next) {
+        const old = before.get(container.id);
+        const isRunning = isContainerActive(container);
+        if (!old) {
+            events.push({ type: ContainerEventType.Created, container });
+            if (isRunning) {
+                events.push({ type: ContainerEventType.Started, container });
+            }
+            continue;
+        }
+
+        const wasRunning = isContainerActive(old);
+        if (!wasRunning && isRunning) {
+            events.push({ type: ContainerEventType.Started, container });
+        } else if (wasRunning && !isRunning) {
+            events.push({ type: ContainerEventType.Stopped, container });
+        }
+    }
+
+    for (const container of previous) {
+        if (!after.has(container.id)) {
+            events.push({ type: ContainerEventType.Removed, container });
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Watches the state store and publishes container lifecycle events
+ */
+export class ContainerEventMonitor implements vscode.Disposable {
+    private _onDidContainerEvent = new vscode.EventEmitter<ContainerEvent>();
+    readonly onDidContainerEvent = this._onDidContainerEvent.event;
+
+    private _previous: Container[] | undefined;
+    // Deadline per container ID until which a stop counts as requested
+    private _expectedStops = new Map<string, number>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly _cli: ContainerCli,
+        store: ContainerStateStore,
+        private readonly _outputChannel: vscode.OutputChannel
+    ) {
+        this._disposables.push(
+            store.onDidChange((snapshot) => {
+                void this.update(snapshot.containers);
+            }),
+            _cli.onWillStopContainer((id) => {
+                this._expectedStops.set(id, Date.now() + EXPECTED_STOP_MS);
+            }),
+            this.onDidContainerEvent((event) => {
+                void this.notify(event);
+            })
+        );
+    }
+
+    /**
+     * Diff the new container list against the previous one and fire events
+     */
+    private async update(containers: Container[]): Promise<void> {
+        const previous = this._previous;
+        if (containers === previous) {
+            return;
+        }
+        this._previous = containers;
+
+        // Marks left by stops that never showed up, e.g. failed stops or restarts between polls
+        const now = Date.now();
+        for (const [id, deadline] of Array.from(this._expectedStops)) {
+            if (deadline < now) {
+                this._expectedStops.delete(id);
+            }
+        }
+
+        // The first snapshot is only a baseline
+        if (!previous) {
+            return;
+        }
+
+        for (const event of diffContainers(previous, containers)) {
+            const wasRunning = previous.some(c => c.id === event.container.id && isContainerActive(c));
+            // A running container that vanished may only be hidden because stopped containers are not listed
+            if (event.type === ContainerEventType.Stopped || (event.type === ContainerEventType.Removed && wasRunning)) {
+                await this.resolveExit(event);
+            }
+            if (event.type === ContainerEventType.Started) {
+                this._expectedStops.delete(event.container.id);
+            }
+            this._outputChannel.appendLine(
+                `[EVENT] ${event.type} ${event.container.name || event.container.id}` +
+                (event.exitCode !== undefined ? ` (exit code ${event.exitCode})` : '')
+            );
+            this._onDidContainerEvent.fire(event);
+        }
+    }
+
+    /**
+     * Look up the exit code of a container that stopped and classify the event
+     */
+    private async resolveExit(event: ContainerEvent): Promise<void> {
+        const id = event.container.id;
+        const inspect = await this._cli.inspectContainer(id);
+        const deadline = this._expectedStops.get(id);
+        this._expectedStops.delete(id);
+        const expected = deadline !== undefined && deadline >= Date.now();
+
+        if (!inspect) {
+            // The container is really gone
+            event.type = ContainerEventType.Removed;
+            return;
+        }
+
+        event.exitCode = inspect.exitCode;
+        event.unexpected = !expected;
+        event.type = inspect.exitCode !== undefined && inspect.exitCode !== 0
+            ? ContainerEventType.ExitedWithError
+            : ContainerEventType.Stopped;
+    }
+
+    /**
+     * Show a notification for containers that exited unexpectedly
+     */
+    private async notify(event: ContainerEvent): Promise<void> {
+        if (event.type !== ContainerEventType.ExitedWithError || !event.unexpected) {
+            return;
+        }
+
+        const { exitNotifications, watchedContainers } = this._cli.config;
+        if (exitNotifications === 'off') {
+            return;
+        }
+        if (exitNotifications === 'watched' && !matchesWatchList(event.container, watchedContainers)) {
+            return;
+        }
+
+        const name = event.container.name || event.container.id.substring(0, 12);
+        const action = await vscode.window.showWarningMessage(
+            `Container "${name}" exited unexpectedly with code ${event.exitCode}`,
+            'View Logs'
+        );
+        if (action === 'View Logs') {
+            await vscode.commands.executeCommand('appleContainers.viewLogs', new ContainerItem(event.container));
+        }
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+        this._onDidContainerEvent.dispose();
+    }
+}
+
+/**
+ * Check a container against watch patterns matching its name or image; `*` is a wildcard
+ */
+export function matchesWatchList(container: Container, patterns: string[]): boolean {
+    return patterns.some((pattern) => {
+        const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+        const regex = new RegExp(`^${escaped}$`, 'i');
+        return regex.test(container.name) || regex.test(container.image);
+    });
+}
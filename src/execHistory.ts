@@ -0,0 +1,100 @@
+/**
+ * Exec History
+ * Remembers the commands recently run in each container
+ */
+
+import * as vscode from 'vscode';
+import { ExecOptions } from './types';
+
+// Commands kept per container
+export const EXEC_HISTORY_SIZE = 15;
+
+const STATE_KEY = 'appleContainers.execHistory';
+
+/**
+ * A command run in a container, with the options it ran with
+ */
+export interface ExecHistoryEntry extends ExecOptions {
+    command: string;
+}
+
+/**
+ * Check whether two entries would run the same thing
+ */
+export function isSameExec(a: ExecHistoryEntry, b: ExecHistoryEntry): boolean {
+    return a.command === b.command &&
+        (a.workdir ?? '') === (b.workdir ?? '') &&
+        (a.user ?? '') === (b.user ?? '') &&
+        JSON.stringify(a.env ?? {}) === JSON.stringify(b.env ?? {});
+}
+
+/**
+ * Put an entry first, dropping any earlier copy of it and the oldest entries over the limit
+ */
+export function addHistoryEntry(
+    entries: readonly ExecHistoryEntry[],
+    entry: ExecHistoryEntry,
+    limit = EXEC_HISTORY_SIZE
+): ExecHistoryEntry[] {
+    return [entry, ...entries.filter(e => !isSameExec(e, entry))].slice(0, limit);
+}
+
+/**
+ * Short summary of the options of an entry, e.g. `as root in /app with 2 variables`
+ */
+export function describeExecOptions(options: ExecOptions): string {
+    const parts: string[] = [];
+    if (options.user) {
+        parts.push(`as ${options.user}`);
+    }
+    if (options.workdir) {
+        parts.push(`in ${options.workdir}`);
+    }
+    const envCount = Object.keys(options.env ?? {}).length;
+    if (envCount > 0) {
+        parts.push(`with ${envCount} variable${envCount === 1 ? '' : 's'}`);
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Per-container command history persisted in workspace state
+ * Keyed by container name, so history survives recreating a container with the same name
+ */
+export class ExecHistoryStore {
+    constructor(private readonly _state: vscode.Memento) { }
+
+    /**
+     * Recent commands for a container, most recent first
+     */
+    get(container: string): ExecHistoryEntry[] {
+        return this.all()[container] ?? [];
+    }
+
+    /**
+     * Record a command run in a container
+     */
+    async add(container: string, entry: ExecHistoryEntry): Promise<void> {
+        const all = this.all();
+        all[container] = addHistoryEntry(all[container] ?? [], entry);
+        await this._state.update(STATE_KEY, all);
+    }
+
+    /**
+     * Forget one command of a container
+     */
+    async remove(container: string, entry: ExecHistoryEntry): Promise<void> {
+        const all = this.all();
+        const remaining = (all[container] ?? []).filter(e => !isSameExec(e, entry));
+        if (remaining.length > 0) {
+            all[container] = remaining;
+        } else {
+            delete all[container];
+        }
+        await this._state.update(STATE_KEY, all);
+    }
+
+    private all(): Record<string, ExecHistoryEntry[]> {
+        return { ...this._state.get<Record<string, ExecHistoryEntry[]>>(STATE_KEY, {}) };
+    }
+}
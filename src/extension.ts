@@ -4,18 +4,35 @@
  */
 
 import * as vscode from 'vscode';
-import { ContainerCli } from './cli';
+import { ContainerCli, isContainerActive } from './cli';
+import { ContainerStateStore, StateSnapshot } from './stateStore';
+import { ContainerEventMonitor } from './containerEvents';
+import { ResourceAlertMonitor } from './resourceAlerts';
+import { FilterableView, ViewFilterStore, describeFilter, isFilterActive } from './viewFilters';
+import { RunProfileStore } from './runProfiles';
+import { ExecHistoryStore } from './execHistory';
+import { SystemServiceState } from './types';
 import {
     ContainersProvider,
     ImagesProvider,
     VolumesProvider,
-    NetworksProvider
+    NetworksProvider,
+    ProfilesProvider,
+    LogDocumentProvider,
+    ContainerFileSystemProvider
 } from './providers';
 import {
     registerContainerCommands,
     registerImageCommands,
     registerVolumeCommands,
-    registerNetworkCommands
+    registerNetworkCommands,
+    registerSystemCommands,
+    registerFilterCommands,
+    registerProfileCommands,
+    registerLogCommands,
+    registerFileCommands,
+    registerCopyCommands,
+    registerExecCommands
 } from './commands';
 
 // Extension output channel
@@ -27,11 +44,29 @@ let statusBarItem: vscode.StatusBarItem;
 // CLI instance
 let cli: ContainerCli;
 
+// Shared state poller
+let stateStore: ContainerStateStore;
+
+// Container lifecycle events
+let eventMonitor: ContainerEventMonitor;
+
+// Resource threshold alerts
+let alertMonitor: ResourceAlertMonitor;
+
+// Per-view filters
+let viewFilters: ViewFilterStore;
+
+// Run profiles from .vscode/apple-containers.json
+let runProfiles: RunProfileStore;
+
 // Providers
 let containersProvider: ContainersProvider;
 let imagesProvider: ImagesProvider;
 let volumesProvider: VolumesProvider;
 let networksProvider: NetworksProvider;
+let profilesProvider: ProfilesProvider;
+let logDocumentProvider: LogDocumentProvider;
+let containerFileSystem: ContainerFileSystemProvider;
 
 /**
  * Extension activation
@@ -41,8 +76,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     outputChannel = vscode.window.createOutputChannel('Apple Containers');
     context.subscriptions.push(outputChannel);
 
-    // Initialize CLI wrapper
-    cli = new ContainerCli(outputChannel);
+    // Initialize CLI wrapper; containers are shared by every window, so signal pauses are kept in global state
+    cli = new ContainerCli(outputChannel, context.globalState);
 
     // Check if CLI is available
     const isAvailable = await cli.isAvailable();
@@ -65,57 +100,98 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         }
     }
 
-    // Create tree data providers
-    containersProvider = new ContainersProvider(cli);
-    imagesProvider = new ImagesProvider(cli);
-    volumesProvider = new VolumesProvider(cli);
-    networksProvider = new NetworksProvider(cli);
+    // Create the shared state store and tree data providers
+    stateStore = new ContainerStateStore(cli);
+    viewFilters = new ViewFilterStore(context.workspaceState);
+    containersProvider = new ContainersProvider(stateStore, cli, viewFilters);
+    imagesProvider = new ImagesProvider(stateStore, viewFilters);
+    volumesProvider = new VolumesProvider(stateStore, viewFilters);
+    networksProvider = new NetworksProvider(stateStore, viewFilters);
+    runProfiles = new RunProfileStore(outputChannel);
+    profilesProvider = new ProfilesProvider(runProfiles);
+    logDocumentProvider = new LogDocumentProvider(cli);
+    containerFileSystem = new ContainerFileSystemProvider(cli);
+    eventMonitor = new ContainerEventMonitor(cli, stateStore, outputChannel);
+    alertMonitor = new ResourceAlertMonitor(cli, stateStore, outputChannel);
 
     // Register tree views
     const containersView = vscode.window.createTreeView('appleContainers.containers', {
         treeDataProvider: containersProvider,
-        showCollapseAll: false
+        dragAndDropController: containersProvider,
+        showCollapseAll: true,
+        canSelectMany: true
     });
 
     const imagesView = vscode.window.createTreeView('appleContainers.images', {
         treeDataProvider: imagesProvider,
-        showCollapseAll: false
+        showCollapseAll: false,
+        canSelectMany: true
     });
 
     const volumesView = vscode.window.createTreeView('appleContainers.volumes', {
         treeDataProvider: volumesProvider,
-        showCollapseAll: false
+        showCollapseAll: false,
+        canSelectMany: true
     });
 
     const networksView = vscode.window.createTreeView('appleContainers.networks', {
         treeDataProvider: networksProvider,
+        showCollapseAll: false,
+        canSelectMany: true
+    });
+
+    const profilesView = vscode.window.createTreeView('appleContainers.profiles', {
+        treeDataProvider: profilesProvider,
         showCollapseAll: false
     });
 
-    context.subscriptions.push(containersView, imagesView, volumesView, networksView);
+    context.subscriptions.push(containersView, imagesView, volumesView, networksView, profilesView);
+
+    // Let the store back off polling while none of the views are visible
+    const views: Array<[FilterableView, vscode.TreeView<unknown>]> = [
+        ['containers', containersView],
+        ['images', imagesView],
+        ['volumes', volumesView],
+        ['networks', networksView]
+    ];
+    for (const [viewId, view] of views) {
+        stateStore.setViewVisible(viewId, view.visible);
+        context.subscriptions.push(
+            view.onDidChangeVisibility((e) => stateStore.setViewVisible(viewId, e.visible))
+        );
+    }
+
+    // Show the active filter in each view's description
+    const updateFilterState = () => {
+        for (const [viewId, view] of views) {
+            view.description = describeFilter(viewFilters.get(viewId));
+        }
+        void vscode.commands.executeCommand(
+            'setContext',
+            'appleContainers.filteredViews',
+            views.filter(([viewId]) => isFilterActive(viewFilters.get(viewId))).map(([viewId]) => `appleContainers.${viewId}`)
+        );
+    };
+    updateFilterState();
+    context.subscriptions.push(viewFilters.onDidChange(updateFilterState));
 
     // Create status bar item
     statusBarItem = vscode.window.createStatusBarItem(
         vscode.StatusBarAlignment.Left,
         100
     );
-    statusBarItem.command = 'appleContainers.refresh';
-    statusBarItem.tooltip = 'Apple Containers - Click to refresh';
     context.subscriptions.push(statusBarItem);
 
-    // Update status bar
-    updateStatusBar();
+    // Update status bar from every snapshot and service state change
+    context.subscriptions.push(
+        stateStore.onDidChange(updateStatusBar),
+        cli.onDidChangeServiceState(() => updateStatusBar(stateStore.snapshot))
+    );
 
     // Register refresh command
     context.subscriptions.push(
         vscode.commands.registerCommand('appleContainers.refresh', async () => {
-            await Promise.all([
-                containersProvider.refresh(),
-                imagesProvider.refresh(),
-                volumesProvider.refresh(),
-                networksProvider.refresh()
-            ]);
-            updateStatusBar();
+            await stateStore.refresh();
             vscode.window.showInformationMessage('Apple Containers refreshed');
         })
     );
@@ -135,6 +211,13 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     registerImageCommands(context, cli, imagesProvider);
     registerVolumeCommands(context, cli, volumesProvider);
     registerNetworkCommands(context, cli, networksProvider);
+    registerSystemCommands(context, cli, stateStore);
+    registerFilterCommands(context, viewFilters);
+    registerProfileCommands(context, cli, runProfiles);
+    registerLogCommands(context, cli, logDocumentProvider);
+    registerFileCommands(context, containerFileSystem);
+    registerCopyCommands(context, cli);
+    registerExecCommands(context, cli, new ExecHistoryStore(context.workspaceState));
 
     // Subscribe providers and CLI to disposal
     context.subscriptions.push({
@@ -143,6 +226,14 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             imagesProvider.dispose();
             volumesProvider.dispose();
             networksProvider.dispose();
+            profilesProvider.dispose();
+            runProfiles.dispose();
+            logDocumentProvider.dispose();
+            containerFileSystem.dispose();
+            eventMonitor.dispose();
+            alertMonitor.dispose();
+            viewFilters.dispose();
+            stateStore.dispose();
             cli.dispose(); // Dispose CLI to clean up config listener
         }
     });
@@ -154,44 +245,56 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         outputChannel.appendLine(`CLI version: ${version}`);
     }
 
-    // Initial data load
-    await Promise.all([
-        containersProvider.refresh(),
-        imagesProvider.refresh(),
-        volumesProvider.refresh(),
-        networksProvider.refresh()
-    ]);
-
-    updateStatusBar();
+    // Initial data load, then poll on the configured interval
+    await cli.getSystemStatus();
+    await stateStore.refresh();
+    stateStore.start();
 }
 
 /**
- * Update status bar with container count
+ * Update status bar with the service state and running container count
  */
-async function updateStatusBar(): Promise<void> {
-    try {
-        const containers = await cli.listContainers(false); // Only running containers
-        const runningCount = containers.length;
-
-        if (runningCount > 0) {
-            statusBarItem.text = `$(vm-running) ${runningCount} container${runningCount !== 1 ? 's' : ''}`;
-            statusBarItem.backgroundColor = undefined;
-        } else {
-            statusBarItem.text = '$(vm) No containers';
-            statusBarItem.backgroundColor = undefined;
-        }
+function updateStatusBar(snapshot: StateSnapshot): void {
+    const serviceState = cli.serviceState;
 
-        statusBarItem.show();
-    } catch (error) {
-        // Log the error for debugging
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        outputChannel.appendLine(`[STATUS BAR ERROR] ${errorMessage}`);
+    // Drives the welcome view shown in the Containers tree
+    void vscode.commands.executeCommand(
+        'setContext',
+        'appleContainers.systemStopped',
+        serviceState === SystemServiceState.Stopped
+    );
 
+    if (serviceState === SystemServiceState.NotInstalled) {
         statusBarItem.text = '$(warning) Containers';
+        statusBarItem.tooltip = 'Apple Containers - CLI not found. Click to configure the path';
+        statusBarItem.command = 'appleContainers.openSettings';
+        statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        statusBarItem.show();
+        return;
+    }
+
+    if (serviceState === SystemServiceState.Stopped) {
+        statusBarItem.text = '$(debug-disconnect) Containers stopped';
+        statusBarItem.tooltip = 'Apple Containers - System service is not running. Click to start it';
+        statusBarItem.command = 'appleContainers.startSystem';
         statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
-        statusBarItem.tooltip = `Apple Containers - Error: ${errorMessage}`;
         statusBarItem.show();
+        return;
+    }
+
+    const runningCount = snapshot.containers
+        .filter(isContainerActive)
+        .length;
+
+    if (runningCount > 0) {
+        statusBarItem.text = `$(vm-running) ${runningCount} container${runningCount !== 1 ? 's' : ''}`;
+    } else {
+        statusBarItem.text = '$(vm) No containers';
     }
+    statusBarItem.tooltip = 'Apple Containers - Click to refresh';
+    statusBarItem.command = 'appleContainers.refresh';
+    statusBarItem.backgroundColor = undefined;
+    statusBarItem.show();
 }
 
 /**
@@ -0,0 +1,443 @@
+/**
+ * Stats Dashboard Panel
+ * Webview charting CPU, memory, network and block I/O of running containers
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli, formatSize } from '../cli';
+import { ContainerItem } from '../providers/containersProvider';
+import { ContainerStateStore } from '../stateStore';
+import { ContainerStats } from '../types';
+import { createNonce } from './webviewUtils';
+
+// How often stats are sampled while the panel is visible
+const STATS_POLL_MS = 2000;
+
+// Samples kept per container, two minutes at the poll interval
+export const STATS_WINDOW = 60;
+
+/**
+ * One sample of a container's usage; I/O values are rates in bytes per second
+ */
+export interface StatsPoint {
+    time: number;
+    cpu: number;
+    memory: number;
+    networkIn: number;
+    networkOut: number;
+    blockIn: number;
+    blockOut: number;
+}
+
+/**
+ * Rolling window of samples per container
+ */
+export class StatsHistory {
+    private _series = new Map<string, { last: ContainerStats; points: StatsPoint[] }>();
+
+    constructor(private readonly _window = STATS_WINDOW) { }
+
+    /**
+     * Record a sample of every running container; containers missing from it are forgotten
+     */
+    add(stats: readonly ContainerStats[], time: number): void {
+        const seen = new Set<string>();
+        for (const current of stats) {
+            seen.add(current.id);
+            const series = this._series.get(current.id);
+            const previous = series?.points[series.points.length - 1];
+            const elapsed = previous ? (time - previous.time) / 1000 : 0;
+            const rate = (now: number, before: number | undefined) =>
+                before !== undefined && elapsed > 0 ? Math.max(0, (now - before) / elapsed) : 0;
+
+            const point: StatsPoint = {
+                time,
+                cpu: current.cpuPercent,
+                memory: current.memoryUsageBytes,
+                networkIn: rate(current.networkInBytes, series?.last.networkInBytes),
+                networkOut: rate(current.networkOutBytes, series?.last.networkOutBytes),
+                blockIn: rate(current.blockInBytes, series?.last.blockInBytes),
+                blockOut: rate(current.blockOutBytes, series?.last.blockOutBytes)
+            };
+            const points = [...(series?.points ?? []), point].slice(-this._window);
+            this._series.set(current.id, { last: current, points });
+        }
+        for (const id of Array.from(this._series.keys())) {
+            if (!seen.has(id)) {
+                this._series.delete(id);
+            }
+        }
+    }
+
+    /**
+     * Latest stats of every tracked container
+     */
+    get latest(): ContainerStats[] {
+        return Array.from(this._series.values()).map(s => s.last);
+    }
+
+    /**
+     * Samples of a container, oldest first
+     */
+    points(id: string): StatsPoint[] {
+        return this._series.get(id)?.points ?? [];
+    }
+}
+
+/**
+ * Columns the dashboard can be sorted by
+ */
+export type StatsSortKey = 'name' | 'cpu' | 'memory' | 'network' | 'block';
+
+/**
+ * A container row in the dashboard
+ */
+export interface StatsRow {
+    id: string;
+    name: string;
+    stats: ContainerStats;
+    points: StatsPoint[];
+}
+
+/**
+ * Sort rows by a column; usage columns put the heaviest consumer first
+ */
+export function sortStatsRows(rows: StatsRow[], key: StatsSortKey): StatsRow[] {
+    const latest = (row: StatsRow) => row.points[row.points.length - 1];
+    const usage: Record<Exclude<StatsSortKey, 'name'>, (row: StatsRow) => number> = {
+        cpu: row => row.stats.cpuPercent,
+        memory: row => row.stats.memoryUsageBytes,
+        network: row => (latest(row)?.networkIn ?? 0) + (latest(row)?.networkOut ?? 0),
+        block: row => (latest(row)?.blockIn ?? 0) + (latest(row)?.blockOut ?? 0)
+    };
+    return [...rows].sort((a, b) => {
+        if (key === 'name') {
+            return a.name.localeCompare(b.name);
+        }
+        return usage[key](b) - usage[key](a) || a.name.localeCompare(b.name);
+    });
+}
+
+// Container commands the dashboard rows may invoke
+const ROW_ACTIONS = [
+    'appleContainers.viewLogs',
+    'appleContainers.attachContainer',
+    'appleContainers.inspectContainer',
+    'appleContainers.restartContainer',
+    'appleContainers.stopContainer'
+];
+
+/**
+ * Messages posted from the webview
+ */
+type PanelMessage =
+    | { command: 'sort'; key: StatsSortKey }
+    | { command: 'action'; action: string; id: string };
+
+/**
+ * Singleton webview panel for live container stats
+ */
+export class StatsPanel implements vscode.Disposable {
+    static readonly viewType = 'appleContainers.statsDashboard';
+
+    private static _current: StatsPanel | undefined;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private _history = new StatsHistory();
+    private _sortKey: StatsSortKey = 'cpu';
+    private _focusId: string | undefined;
+    private _timer: ReturnType<typeof setInterval> | undefined;
+    private _polling = false;
+    // Set once the panel closes; a stats call may still be in flight
+    private _disposed = false;
+
+    /**
+     * Reveal the panel, creating it if needed
+     * @param focusId container to highlight
+     */
+    static show(cli: ContainerCli, store: ContainerStateStore, focusId?: string): void {
+        if (StatsPanel._current) {
+            StatsPanel._current._focusId = focusId;
+            StatsPanel._current._panel.reveal();
+            StatsPanel._current.postUpdate();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            StatsPanel.viewType,
+            'Container Stats',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        StatsPanel._current = new StatsPanel(panel, cli, store, focusId);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly _cli: ContainerCli,
+        private readonly _store: ContainerStateStore,
+        focusId: string | undefined
+    ) {
+        this._panel = panel;
+        this._panel.iconPath = new vscode.ThemeIcon('graph');
+        this._focusId = focusId;
+
+        this._disposables.push(
+            this._panel.onDidDispose(() => this.dispose()),
+            this._panel.webview.onDidReceiveMessage((message: PanelMessage) => {
+                void this.handleMessage(message);
+            }),
+            // Only sample while someone is looking
+            this._panel.onDidChangeViewState(() => this.updatePolling())
+        );
+
+        this._panel.webview.html = this.getHtml();
+        this.updatePolling();
+    }
+
+    private updatePolling(): void {
+        if (this._panel.visible && !this._timer) {
+            void this.poll();
+            this._timer = setInterval(() => void this.poll(), STATS_POLL_MS);
+        } else if (!this._panel.visible && this._timer) {
+            clearInterval(this._timer);
+            this._timer = undefined;
+        }
+    }
+
+    /**
+     * Sample stats of all running containers
+     */
+    private async poll(): Promise<void> {
+        if (this._polling) {
+            return;
+        }
+        this._polling = true;
+        try {
+            const stats = await this._cli.getStats();
+            if (this._disposed) {
+                return;
+            }
+            this._history.add(stats, Date.now());
+            this.postUpdate();
+        } finally {
+            this._polling = false;
+        }
+    }
+
+    /**
+     * Send the current rows to the webview
+     */
+    private postUpdate(): void {
+        if (this._disposed) {
+            return;
+        }
+        const containers = this._store.snapshot.containers;
+        const rows = sortStatsRows(this._history.latest.map((stats) => {
+            const container = containers.find(c => c.id === stats.id);
+            return {
+                id: stats.id,
+                name: container?.name || stats.name || stats.id.substring(0, 12),
+                stats,
+                points: this._history.points(stats.id)
+            };
+        }), this._sortKey);
+
+        void this._panel.webview.postMessage({
+            type: 'update',
+            sortKey: this._sortKey,
+            focusId: this._focusId,
+            rows: rows.map(row => {
+                const latest = row.points[row.points.length - 1];
+                return {
+                    id: row.id,
+                    name: row.name,
+                    cpu: `${row.stats.cpuPercent.toFixed(1)}%`,
+                    memory: row.stats.memoryLimitBytes > 0
+                        ? `${row.stats.memoryUsage} / ${row.stats.memoryLimit} (${row.stats.memoryPercent.toFixed(0)}%)`
+                        : row.stats.memoryUsage,
+                    network: `↓ ${formatSize(latest?.networkIn ?? 0)}/s ↑ ${formatSize(latest?.networkOut ?? 0)}/s`,
+                    block: `R ${formatSize(latest?.blockIn ?? 0)}/s W ${formatSize(latest?.blockOut ?? 0)}/s`,
+                    pids: row.stats.pids,
+                    memoryLimit: row.stats.memoryLimitBytes,
+                    series: {
+                        cpu: row.points.map(p => p.cpu),
+                        memory: row.points.map(p => p.memory),
+                        networkIn: row.points.map(p => p.networkIn),
+                        networkOut: row.points.map(p => p.networkOut),
+                        blockIn: row.points.map(p => p.blockIn),
+                        blockOut: row.points.map(p => p.blockOut)
+                    }
+                };
+            })
+        });
+    }
+
+    /**
+     * Handle a sort or row action in the webview
+     */
+    private async handleMessage(message: PanelMessage): Promise<void> {
+        switch (message.command) {
+            case 'sort':
+                this._sortKey = message.key;
+                this.postUpdate();
+                break;
+            case 'action': {
+                const container = this._store.snapshot.containers.find(c => c.id === message.id);
+                if (!container || !ROW_ACTIONS.includes(message.action)) {
+                    return;
+                }
+                await vscode.commands.executeCommand(message.action, new ContainerItem(container));
+                break;
+            }
+        }
+    }
+
+    /**
+     * Build the webview HTML; rows are rendered by the script from update messages
+     */
+    private getHtml(): string {
+        const nonce = createNonce();
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Container Stats</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        table { border-collapse: collapse; width: 100%; }
+        th { text-align: left; border-bottom: 1px solid var(--vscode-panel-border); padding: 6px 12px 6px 0; }
+        th button { background: none; border: none; color: inherit; font: inherit; font-weight: bold; cursor: pointer; padding: 0; }
+        th button.active::after { content: ' ▾'; }
+        td { padding: 6px 12px 6px 0; vertical-align: top; border-bottom: 1px solid var(--vscode-panel-border); }
+        tr.focused td { background: var(--vscode-list-inactiveSelectionBackground); }
+        .value { white-space: nowrap; }
+        svg { display: block; width: 140px; height: 32px; margin-top: 4px; }
+        polyline { fill: none; stroke-width: 1.5; vector-effect: non-scaling-stroke; }
+        .cpu { stroke: var(--vscode-charts-blue); }
+        .memory { stroke: var(--vscode-charts-purple); }
+        .in { stroke: var(--vscode-charts-green); }
+        .out { stroke: var(--vscode-charts-orange); }
+        .limit { stroke: var(--vscode-charts-red); stroke-dasharray: 3 2; }
+        .actions button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 2px 8px; margin: 0 4px 4px 0; cursor: pointer; }
+        .actions button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+        .empty { opacity: 0.8; }
+    </style>
+</head>
+<body>
+    <h2>Container Stats</h2>
+    <p class="empty" id="empty">Waiting for stats...</p>
+    <table id="table" hidden>
+        <thead>
+            <tr>
+                <th><button data-sort="name">Container</button></th>
+                <th><button data-sort="cpu">CPU</button></th>
+                <th><button data-sort="memory">Memory</button></th>
+                <th><button data-sort="network">Network I/O</button></th>
+                <th><button data-sort="block">Block I/O</button></th>
+                <th>PIDs</th>
+                <th></th>
+            </tr>
+        </thead>
+        <tbody id="rows"></tbody>
+    </table>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const actions = [
+            ['appleContainers.viewLogs', 'Logs'],
+            ['appleContainers.attachContainer', 'Shell'],
+            ['appleContainers.inspectContainer', 'Inspect'],
+            ['appleContainers.restartContainer', 'Restart'],
+            ['appleContainers.stopContainer', 'Stop']
+        ];
+        let scrolledTo;
+
+        const escape = (value) => String(value).replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';');
+
+        // One sparkline per series, all scaled to the same maximum
+        const chart = (series, max, limit) => {
+            const top = Math.max(max, 1);
+            const lines = series.map(([values, cls]) => {
+                const step = values.length > 1 ? 100 / (values.length - 1) : 100;
+                const points = values.map((v, i) => (i * step).toFixed(1) + ',' + (30 - (v / top) * 28).toFixed(1)).join(' ');
+                return '<polyline class="' + cls + '" points="' + points + '"/>';
+            });
+            if (limit) {
+                lines.push('<polyline class="limit" points="0,2 100,2"/>');
+            }
+            return '<svg viewBox="0 0 100 32" preserveAspectRatio="none">' + lines.join('') + '</svg>';
+        };
+        const peak = (...lists) => Math.max(0, ...lists.flat());
+
+        document.querySelectorAll('button[data-sort]').forEach((button) => {
+            button.addEventListener('click', () => vscode.postMessage({ command: 'sort', key: button.dataset.sort }));
+        });
+        document.getElementById('rows').addEventListener('click', (event) => {
+            const button = event.target.closest('button[data-action]');
+            if (button) {
+                vscode.postMessage({ command: 'action', action: button.dataset.action, id: button.dataset.id });
+            }
+        });
+
+        window.addEventListener('message', (event) => {
+            const message = event.data;
+            if (message.type !== 'update') {
+                return;
+            }
+            document.querySelectorAll('button[data-sort]').forEach((button) => {
+                button.classList.toggle('active', button.dataset.sort === message.sortKey);
+            });
+            document.getElementById('empty').textContent = 'No running containers.';
+            document.getElementById('empty').hidden = message.rows.length > 0;
+            document.getElementById('table').hidden = message.rows.length === 0;
+
+            document.getElementById('rows').innerHTML = message.rows.map((row) => {
+                const s = row.series;
+                const memoryMax = row.memoryLimit > 0 ? row.memoryLimit : peak(s.memory);
+                return '<tr id="row-' + escape(row.id) + '"' + (row.id === message.focusId ? ' class="focused"' : '') + '>' +
+                    '<td>' + escape(row.name) + '</td>' +
+                    '<td><div class="value">' + escape(row.cpu) + '</div>' + chart([[s.cpu, 'cpu']], peak(s.cpu, [100])) + '</td>' +
+                    '<td><div class="value">' + escape(row.memory) + '</div>' + chart([[s.memory, 'memory']], memoryMax, row.memoryLimit > 0) + '</td>' +
+                    '<td><div class="value">' + escape(row.network) + '</div>' + chart([[s.networkIn, 'in'], [s.networkOut, 'out']], peak(s.networkIn, s.networkOut)) + '</td>' +
+                    '<td><div class="value">' + escape(row.block) + '</div>' + chart([[s.blockIn, 'in'], [s.blockOut, 'out']], peak(s.blockIn, s.blockOut)) + '</td>' +
+                    '<td>' + escape(row.pids) + '</td>' +
+                    '<td class="actions">' + actions.map(([action, label]) =>
+                        '<button data-action="' + action + '" data-id="' + escape(row.id) + '">' + label + '</button>').join('') + '</td>' +
+                    '</tr>';
+            }).join('');
+
+            if (message.focusId && scrolledTo !== message.focusId) {
+                const focused = document.getElementById('row-' + message.focusId);
+                if (focused) {
+                    focused.scrollIntoView({ block: 'center' });
+                    scrolledTo = message.focusId;
+                }
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+        StatsPanel._current = undefined;
+        if (this._timer) {
+            clearInterval(this._timer);
+            this._timer = undefined;
+        }
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+        this._panel.dispose();
+    }
+}
@@ -0,0 +1,325 @@
+/**
+ * System Overview Panel
+ * Webview summarising the container system, disk usage and prune actions
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli, formatSize, isContainerActive, parseImageReference } from '../cli';
+import { ContainerStateStore } from '../stateStore';
+import { Container, Image, SystemServiceState } from '../types';
+import { createNonce, escapeHtml } from './webviewUtils';
+
+/**
+ * Resource counts and disk usage shown in the overview
+ */
+export interface SystemSummary {
+    containers: number;
+    runningContainers: number;
+    images: number;
+    volumes: number;
+    networks: number;
+    totalImageBytes: number;
+    reclaimableImageBytes: number;
+    unusedImages: number;
+}
+
+/**
+ * Summarise resources; images not used by any container count as reclaimable
+ */
+export function summarizeSystem(
+    containers: Container[],
+    images: Image[],
+    volumeCount: number,
+    networkCount: number
+): SystemSummary {
+    const usedReferences = new Set(containers.map((c) => {
+        const { repository, tag } = parseImageReference(c.image);
+        return `${repository}:${tag}`;
+    }));
+
+    let totalImageBytes = 0;
+    let reclaimableImageBytes = 0;
+    let unusedImages = 0;
+    for (const image of images) {
+        const size = image.sizeBytes ?? 0;
+        totalImageBytes += size;
+        if (!usedReferences.has(`${image.repository}:${image.tag}`)) {
+            reclaimableImageBytes += size;
+            unusedImages++;
+        }
+    }
+
+    return {
+        containers: containers.length,
+        runningContainers: containers.filter(isContainerActive).length,
+        images: images.length,
+        volumes: volumeCount,
+        networks: networkCount,
+        totalImageBytes,
+        reclaimableImageBytes,
+        unusedImages
+    };
+}
+
+/**
+ * Messages posted from the webview
+ */
+type PanelMessage =
+    | { command: 'refresh' }
+    | { command: 'pruneImages' }
+    | { command: 'pruneVolumes' }
+    | { command: 'startSystem' };
+
+/**
+ * Singleton webview panel for the system overview
+ */
+export class SystemOverviewPanel implements vscode.Disposable {
+    static readonly viewType = 'appleContainers.systemOverview';
+
+    private static _current: SystemOverviewPanel | undefined;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+    private _version: string | undefined;
+    private _systemInfo: Record<string, unknown> | undefined;
+    // Every container, when the snapshot leaves out stopped ones
+    private _allContainers: Container[] | undefined;
+    private _snapshotContainers: readonly Container[] | undefined;
+    // Data behind the current HTML, so unchanged polls do not reload the webview
+    private _renderedKey: string | undefined;
+    // Set once the panel closes; CLI calls and prompts may still finish afterwards
+    private _disposed = false;
+
+    /**
+     * Reveal the panel, creating it if needed
+     */
+    static show(cli: ContainerCli, store: ContainerStateStore): void {
+        if (SystemOverviewPanel._current) {
+            SystemOverviewPanel._current._panel.reveal();
+            void SystemOverviewPanel._current.update();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            SystemOverviewPanel.viewType,
+            'System Overview',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        SystemOverviewPanel._current = new SystemOverviewPanel(panel, cli, store);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly _cli: ContainerCli,
+        private readonly _store: ContainerStateStore
+    ) {
+        this._panel = panel;
+        this._panel.iconPath = new vscode.ThemeIcon('dashboard');
+
+        this._disposables.push(
+            this._panel.onDidDispose(() => this.dispose()),
+            this._panel.webview.onDidReceiveMessage((message: PanelMessage) => {
+                void this.handleMessage(message);
+            }),
+            _store.onDidChange(() => void this.onSnapshot()),
+            _cli.onDidChangeServiceState(() => this.render())
+        );
+
+        this.render();
+        void this.update();
+    }
+
+    /**
+     * Fetch details that are not part of the shared snapshot
+     */
+    private async update(): Promise<void> {
+        const [version, systemInfo] = await Promise.all([
+            this._cli.getVersion(),
+            this._cli.getSystemInfo(),
+            this.refreshContainers()
+        ]);
+        if (this._disposed) {
+            return;
+        }
+        this._version = version;
+        this._systemInfo = systemInfo;
+        this.render();
+    }
+
+    /**
+     * Keep the full container list in step with the shared snapshot
+     */
+    private async onSnapshot(): Promise<void> {
+        // Slices keep their reference when unchanged, so only refetch when containers changed
+        const containers = this._store.snapshot.containers;
+        if (containers !== this._snapshotContainers) {
+            this._snapshotContainers = containers;
+            await this.refreshContainers();
+        }
+        if (this._disposed) {
+            return;
+        }
+        this.render();
+    }
+
+    /**
+     * Fetch stopped containers too when the snapshot leaves them out
+     */
+    private async refreshContainers(): Promise<void> {
+        const containers = this._cli.config.showStoppedContainers ? undefined : await this._cli.listContainers(true);
+        if (!this._disposed) {
+            this._allContainers = containers;
+        }
+    }
+
+    /**
+     * Handle a button press in the webview
+     */
+    private async handleMessage(message: PanelMessage): Promise<void> {
+        switch (message.command) {
+            case 'refresh':
+                await this._store.refresh();
+                break;
+            case 'pruneImages':
+                await vscode.commands.executeCommand('appleContainers.pruneImages');
+                break;
+            case 'pruneVolumes':
+                await vscode.commands.executeCommand('appleContainers.pruneVolumes');
+                break;
+            case 'startSystem':
+                await vscode.commands.executeCommand('appleContainers.startSystem');
+                break;
+        }
+        if (this._disposed) {
+            return;
+        }
+        await this.update();
+    }
+
+    /**
+     * Re-render the webview when the data shown has changed
+     */
+    private render(): void {
+        if (this._disposed) {
+            return;
+        }
+        const snapshot = this._store.snapshot;
+        // Prefer the full list so stopped containers count even when hidden in the tree
+        const containers = this._allContainers ?? snapshot.containers;
+        const summary = summarizeSystem(containers, snapshot.images, snapshot.volumes.length, snapshot.networks.length);
+
+        // Replacing the HTML reloads the webview, losing scroll position and focus
+        const key = JSON.stringify([summary, this._cli.serviceState, this._version, this._systemInfo]);
+        if (key === this._renderedKey) {
+            return;
+        }
+        this._renderedKey = key;
+        this._panel.webview.html = this.getHtml(summary);
+    }
+
+    /**
+     * Build the webview HTML
+     */
+    private getHtml(summary: SystemSummary): string {
+        const nonce = createNonce();
+        const state = this._cli.serviceState;
+        const stateLabel: Record<SystemServiceState, string> = {
+            [SystemServiceState.Running]: 'Running',
+            [SystemServiceState.Stopped]: 'Stopped',
+            [SystemServiceState.NotInstalled]: 'CLI not found',
+            [SystemServiceState.Unknown]: 'Unknown'
+        };
+
+        const info = this._systemInfo ?? {};
+        const kernel = info.kernel ?? info.kernelInfo;
+        const builder = info.builder ?? info.builderInfo;
+        const otherInfo = Object.entries(info)
+            .filter(([key]) => !['kernel', 'kernelInfo', 'builder', 'builderInfo'].includes(key));
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>System Overview</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        h2 { border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+        .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 12px; }
+        .card { background: var(--vscode-editorWidget-background); border: 1px solid var(--vscode-panel-border); border-radius: 4px; padding: 12px; }
+        .card .value { font-size: 1.6em; font-weight: bold; }
+        .card .label { opacity: 0.8; }
+        table { border-collapse: collapse; }
+        td { padding: 2px 12px 2px 0; vertical-align: top; }
+        td:first-child { opacity: 0.8; }
+        pre { margin: 0; white-space: pre-wrap; font-family: var(--vscode-editor-font-family); }
+        button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 12px; margin: 4px 8px 4px 0; cursor: pointer; }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        .state-running { color: var(--vscode-charts-green); }
+        .state-stopped, .state-notInstalled { color: var(--vscode-charts-orange); }
+    </style>
+</head>
+<body>
+    <h2>System</h2>
+    <table>
+        <tr><td>CLI version</td><td>${escapeHtml(this._version ?? 'Unknown')}</td></tr>
+        <tr><td>Service</td><td class="state-${state}">${stateLabel[state]}</td></tr>
+        ${kernel !== undefined ? `<tr><td>Kernel</td><td>${renderValue(kernel)}</td></tr>` : ''}
+        ${builder !== undefined ? `<tr><td>Builder</td><td>${renderValue(builder)}</td></tr>` : ''}
+        ${otherInfo.map(([key, value]) => `<tr><td>${escapeHtml(key)}</td><td>${renderValue(value)}</td></tr>`).join('\n        ')}
+    </table>
+    <button data-command="refresh">Refresh</button>
+    ${state === SystemServiceState.Stopped ? '<button data-command="startSystem">Start Container System</button>' : ''}
+
+    <h2>Resources</h2>
+    <div class="cards">
+        <div class="card"><div class="value">${summary.runningContainers} / ${summary.containers}</div><div class="label">Containers running</div></div>
+        <div class="card"><div class="value">${summary.images}</div><div class="label">Images</div></div>
+        <div class="card"><div class="value">${summary.volumes}</div><div class="label">Volumes</div></div>
+        <div class="card"><div class="value">${summary.networks}</div><div class="label">Networks</div></div>
+    </div>
+
+    <h2>Disk Usage</h2>
+    <div class="cards">
+        <div class="card"><div class="value">${formatSize(summary.totalImageBytes)}</div><div class="label">Total image size</div></div>
+        <div class="card"><div class="value">${formatSize(summary.reclaimableImageBytes)}</div><div class="label">Reclaimable (${summary.unusedImages} unused image${summary.unusedImages !== 1 ? 's' : ''})</div></div>
+    </div>
+    <button data-command="pruneImages">Prune Images</button>
+    <button data-command="pruneVolumes">Prune Volumes</button>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('button[data-command]').forEach((button) => {
+            button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command }));
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        if (this._disposed) {
+            return;
+        }
+        this._disposed = true;
+        SystemOverviewPanel._current = undefined;
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+        this._panel.dispose();
+    }
+}
+
+/**
+ * Render an arbitrary system info value, using JSON for objects
+ */
+function renderValue(value: unknown): string {
+    if (value !== null && typeof value === 'object') {
+        return `<pre>${escapeHtml(JSON.stringify(value, null, 2))}</pre>`;
+    }
+    return escapeHtml(String(value));
+}
@@ -0,0 +1,88 @@
+/**
+ * Port Probe
+ * Detects whether a published port serves HTTP or HTTPS before opening it
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { portHost } from './providers/containerDetails';
+import { PortMapping } from './types';
+
+// Give up on a port that does not answer within this time
+const PROBE_TIMEOUT_MS = 1500;
+
+export type PortScheme = 'http' | 'https';
+
+/**
+ * URL of a published port for a scheme
+ */
+export function portUrl(port: PortMapping, scheme: PortScheme): string {
+    return `${scheme}://${portHost(port)}:${port.hostPort}`;
+}
+
+/**
+ * Check whether a server reply starts like an HTTP response
+ */
+export function isHttpResponse(reply: string): boolean {
+    return /^HTTP\/\d/.test(reply);
+}
+
+/**
+ * Send a request over an open socket and resolve with the start of the reply, or undefined
+ */
+function readReply(socket: net.Socket, host: string, timeoutMs: number): Promise<string | undefined> {
+    return new Promise((resolve) => {
+        let reply = '';
+        const finish = (value: string | undefined) => {
+            clearTimeout(timer);
+            socket.destroy();
+            resolve(value);
+        };
+        const timer = setTimeout(() => finish(reply || undefined), timeoutMs);
+
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk: string) => {
+            reply += chunk;
+            if (reply.length >= 16) {
+                finish(reply);
+            }
+        });
+        socket.on('end', () => finish(reply || undefined));
+        socket.on('error', () => finish(undefined));
+        socket.write(`HEAD / HTTP/1.0\r\nHost: ${host}\r\n\r\n`);
+    });
+}
+
+/**
+ * Probe a port for HTTPS first, then plain HTTP
+ * @returns the scheme the port answered on, or undefined when it did not answer HTTP at all
+ */
+export async function probePortScheme(port: PortMapping, timeoutMs = PROBE_TIMEOUT_MS): Promise<PortScheme | undefined> {
+    const host = portHost(port).replace(/^\[|\]$/g, '');
+
+    // Development servers usually use self-signed certificates, so a completed handshake is enough
+    const speaksTls = await new Promise<boolean>((resolve) => {
+        const socket = tls.connect({ host, port: port.hostPort, servername: net.isIP(host) ? undefined : host, rejectUnauthorized: false, timeout: timeoutMs });
+        const finish = (value: boolean) => {
+            socket.destroy();
+            resolve(value);
+        };
+        socket.once('secureConnect', () => finish(true));
+        socket.once('timeout', () => finish(false));
+        socket.once('error', () => finish(false));
+    });
+    if (speaksTls) {
+        return 'https';
+    }
+
+    const plainReply = await new Promise<string | undefined>((resolve) => {
+        const socket = net.connect({ host, port: port.hostPort, timeout: timeoutMs });
+        socket.once('connect', () => resolve(readReply(socket, host, timeoutMs)));
+        socket.once('timeout', () => {
+            socket.destroy();
+            resolve(undefined);
+        });
+        socket.once('error', () => resolve(undefined));
+    });
+    return plainReply !== undefined && isHttpResponse(plainReply) ? 'http' : undefined;
+}
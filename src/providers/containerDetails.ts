@@ -0,0 +1,221 @@
+/**
+ * Container Detail Nodes
+ * Child nodes shown when a container is expanded, built from `container inspect`
+ */
+
+import * as vscode from 'vscode';
+import { ContainerInspect, Mount, NetworkAttachment, PortMapping } from '../types';
+
+/**
+ * Sections shown under an expanded container
+ */
+export enum ContainerDetailSection {
+    Ports = 'ports',
+    Mounts = 'mounts',
+    Environment = 'environment',
+    Networks = 'networks',
+    Resources = 'resources'
+}
+
+/**
+ * Split a `NAME=value` environment entry; entries without `=` have an empty value
+ */
+export function parseEnvEntry(entry: string): { name: string; value: string } {
+    const index = entry.indexOf('=');
+    if (index === -1) {
+        return { name: entry, value: '' };
+    }
+    return { name: entry.substring(0, index), value: entry.substring(index + 1) };
+}
+
+/**
+ * Host address to reach a published port on, mapping wildcard binds to localhost
+ */
+export function portHost(port: PortMapping): string {
+    const host = port.hostIp;
+    if (!host || host === '0.0.0.0' || host === '::') {
+        return 'localhost';
+    }
+    return host.includes(':') ? `[${host}]` : host;
+}
+
+/**
+ * Tree item for a published port
+ */
+export class PortItem extends vscode.TreeItem {
+    constructor(
+        public readonly containerId: string,
+        public readonly port: PortMapping
+    ) {
+        super(`${port.hostPort} → ${port.containerPort}/${port.protocol}`, vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${containerId}:port:${port.hostIp ?? ''}:${port.hostPort}/${port.protocol}`;
+        this.description = port.hostIp;
+        this.tooltip = `${portHost(port)}:${port.hostPort} → container port ${port.containerPort}/${port.protocol}`;
+        // Only TCP ports can be opened in a browser
+        this.contextValue = port.protocol === 'tcp' ? 'containerPort' : 'containerPortUdp';
+        this.iconPath = new vscode.ThemeIcon('plug');
+    }
+}
+
+/**
+ * Tree item for a mount point
+ */
+export class MountItem extends vscode.TreeItem {
+    constructor(
+        public readonly containerId: string,
+        public readonly mount: Mount
+    ) {
+        super(mount.target, vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${containerId}:mount:${mount.target}`;
+        this.description = `${mount.type === 'tmpfs' ? 'tmpfs' : mount.source}${mount.readonly ? ' (read-only)' : ''}`;
+        this.tooltip = `${mount.type} mount: ${mount.source || mount.type} → ${mount.target}`;
+        // Bind mounts point at a host path that can be revealed
+        this.contextValue = mount.type === 'bind' ? 'bindMount' : 'containerMount';
+        this.iconPath = new vscode.ThemeIcon(mount.type === 'bind' ? 'folder' : mount.type === 'volume' ? 'database' : 'file-binary');
+    }
+}
+
+/**
+ * Tree item for an environment variable
+ */
+export class EnvVarItem extends vscode.TreeItem {
+    constructor(
+        public readonly containerId: string,
+        public readonly name: string,
+        public readonly value: string
+    ) {
+        super(name, vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${containerId}:env:${name}`;
+        this.description = value;
+        this.tooltip = `${name}=${value}`;
+        this.contextValue = 'containerEnv';
+        this.iconPath = new vscode.ThemeIcon('symbol-variable');
+    }
+}
+
+/**
+ * Tree item for a network the container is attached to
+ */
+export class NetworkAttachmentItem extends vscode.TreeItem {
+    constructor(
+        public readonly containerId: string,
+        public readonly network: NetworkAttachment
+    ) {
+        super(network.name, vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${containerId}:network:${network.name}`;
+        this.description = network.ipAddress;
+        this.tooltip = [
+            `Network: ${network.name}`,
+            network.ipAddress ? `IP: ${network.ipAddress}` : undefined,
+            network.macAddress ? `MAC: ${network.macAddress}` : undefined
+        ].filter(Boolean).join('\n');
+        this.contextValue = 'containerNetwork';
+        this.iconPath = new vscode.ThemeIcon('globe');
+    }
+}
+
+/**
+ * Tree item for a resource limit
+ */
+export class ResourceLimitItem extends vscode.TreeItem {
+    constructor(
+        public readonly containerId: string,
+        name: string,
+        value: string
+    ) {
+        super(name, vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${containerId}:resource:${name}`;
+        this.description = value;
+        this.contextValue = 'containerResource';
+        this.iconPath = new vscode.ThemeIcon('dashboard');
+    }
+}
+
+/**
+ * Leaf node under a container section
+ */
+export type ContainerDetailItem = PortItem | MountItem | EnvVarItem | NetworkAttachmentItem | ResourceLimitItem;
+
+/**
+ * Collapsible section grouping one kind of container detail
+ */
+export class ContainerSectionItem extends vscode.TreeItem {
+    constructor(
+        public readonly containerId: string,
+        public readonly section: ContainerDetailSection,
+        public readonly children: ContainerDetailItem[]
+    ) {
+        super(ContainerSectionItem.label(section), vscode.TreeItemCollapsibleState.Collapsed);
+
+        this.id = `${containerId}:${section}`;
+        this.description = `${children.length}`;
+        this.contextValue = `containerSection.${section}`;
+        this.iconPath = new vscode.ThemeIcon(ContainerSectionItem.icon(section));
+    }
+
+    private static label(section: ContainerDetailSection): string {
+        switch (section) {
+            case ContainerDetailSection.Ports:
+                return 'Ports';
+            case ContainerDetailSection.Mounts:
+                return 'Mounts';
+            case ContainerDetailSection.Environment:
+                return 'Environment';
+            case ContainerDetailSection.Networks:
+                return 'Networks';
+            default:
+                return 'Resource Limits';
+        }
+    }
+
+    private static icon(section: ContainerDetailSection): string {
+        switch (section) {
+            case ContainerDetailSection.Ports:
+                return 'plug';
+            case ContainerDetailSection.Mounts:
+                return 'folder-library';
+            case ContainerDetailSection.Environment:
+                return 'symbol-namespace';
+            case ContainerDetailSection.Networks:
+                return 'globe';
+            default:
+                return 'dashboard';
+        }
+    }
+}
+
+/**
+ * Build the detail sections for an inspected container, omitting empty ones
+ */
+export function buildContainerSections(id: string, inspect: ContainerInspect): ContainerSectionItem[] {
+    const sections: ContainerSectionItem[] = [];
+    const add = (section: ContainerDetailSection, children: ContainerDetailItem[]) => {
+        if (children.length > 0) {
+            sections.push(new ContainerSectionItem(id, section, children));
+        }
+    };
+
+    add(ContainerDetailSection.Ports, (inspect.ports ?? []).map(p => new PortItem(id, p)));
+    add(ContainerDetailSection.Mounts, (inspect.mounts ?? []).map(m => new MountItem(id, m)));
+    add(ContainerDetailSection.Environment, (inspect.config?.env ?? [])
+        .map(parseEnvEntry)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(e => new EnvVarItem(id, e.name, e.value)));
+    add(ContainerDetailSection.Networks, (inspect.networks ?? []).map(n => new NetworkAttachmentItem(id, n)));
+
+    const resources: ResourceLimitItem[] = [];
+    if (inspect.resources?.cpus !== undefined) {
+        resources.push(new ResourceLimitItem(id, 'CPUs', `${inspect.resources.cpus}`));
+    }
+    if (inspect.resources?.memory) {
+        resources.push(new ResourceLimitItem(id, 'Memory', inspect.resources.memory));
+    }
+    add(ContainerDetailSection.Resources, resources);
+
+    return sections;
+}
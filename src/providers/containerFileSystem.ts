@@ -0,0 +1,211 @@
+/**
+ * Container File System
+ * `container://<id>/path` file system backed by `container exec`
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContainerCli } from '../cli';
+import { CliErrorKind, CliResult, ExecOutput } from '../types';
+
+export const CONTAINER_FS_SCHEME = 'container';
+
+// Paths are passed as positional arguments ($1, $2) so they are never parsed by the shell
+const STAT_SCRIPT = [
+    '[ -e "$1" ] || [ -L "$1" ] || exit 2',
+    't=f; [ -d "$1" ] && t=d; [ -L "$1" ] && t="l$t"',
+    'w=0; [ -w "$1" ] && w=1',
+    's=$(stat -L -c "%s %Y" -- "$1" 2>/dev/null) || s="0 0"',
+    'printf "%s %s %s\\n" "$t" "$w" "$s"'
+].join('\n');
+
+const LIST_SCRIPT = [
+    'cd -- "$1" || exit 2',
+    'for f in * .[!.]* ..?*; do',
+    '  [ -e "$f" ] || [ -L "$f" ] || continue',
+    '  t=f; [ -d "$f" ] && t=d; [ -L "$f" ] && t="l$t"',
+    '  printf "%s\\t%s\\n" "$t" "$f"',
+    'done'
+].join('\n');
+
+const WRITE_SCRIPT = 'cat > "$1"';
+
+/**
+ * Build the URI of a path inside a container
+ */
+export function containerFileUri(containerId: string, filePath = '/'): vscode.Uri {
+    return vscode.Uri.from({ scheme: CONTAINER_FS_SCHEME, authority: containerId, path: filePath });
+}
+
+/**
+ * Map a type code printed by the scripts (f, d, lf, ld) to a file type
+ */
+export function parseFileType(code: string): vscode.FileType {
+    const link = code.startsWith('l') ? vscode.FileType.SymbolicLink : 0;
+    return (code.endsWith('d') ? vscode.FileType.Directory : vscode.FileType.File) | link;
+}
+
+/**
+ * Parse the output of the stat script: `<type> <writable> <size> <mtime seconds>`
+ */
+export function parseStatOutput(output: string): vscode.FileStat & { permissions?: vscode.FilePermission } {
+    const [type, writable, size, mtime] = output.trim().split(/\s+/);
+    const modified = (parseInt(mtime, 10) || 0) * 1000;
+    return {
+        type: parseFileType(type ?? 'f'),
+        ctime: modified,
+        mtime: modified,
+        size: parseInt(size, 10) || 0,
+        permissions: writable === '1' ? undefined : vscode.FilePermission.Readonly
+    };
+}
+
+/**
+ * Parse the output of the list script: one `<type>\t<name>` line per entry
+ */
+export function parseDirectoryListing(output: string): [string, vscode.FileType][] {
+    return output.split('\n')
+        .filter(line => line.includes('\t'))
+        .map((line) => {
+            const separator = line.indexOf('\t');
+            return [line.substring(separator + 1), parseFileType(line.substring(0, separator))];
+        });
+}
+
+/**
+ * File system provider that reads and writes files in running containers
+ */
+export class ContainerFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private readonly _cli: ContainerCli) { }
+
+    /**
+     * Changes are only reported for edits made through this provider
+     */
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const output = await this.run(uri, ['sh', '-c', STAT_SCRIPT, 'sh', uri.path]);
+        return parseStatOutput(output.stdout.toString('utf8'));
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const output = await this.run(uri, ['sh', '-c', LIST_SCRIPT, 'sh', uri.path]);
+        return parseDirectoryListing(output.stdout.toString('utf8'));
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const output = await this.run(uri, ['cat', '--', uri.path]);
+        return output.stdout;
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        const exists = await this.exists(uri);
+        if (!exists && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (exists && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+
+        // Redirecting into an existing file keeps its owner and permissions
+        await this.run(uri, ['sh', '-c', WRITE_SCRIPT, 'sh', uri.path], content);
+        this._onDidChangeFile.fire([{ type: exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri }]);
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        await this.run(uri, ['mkdir', '--', uri.path]);
+        this._onDidChangeFile.fire([
+            { type: vscode.FileChangeType.Changed, uri: uri.with({ path: path.posix.dirname(uri.path) }) },
+            { type: vscode.FileChangeType.Created, uri }
+        ]);
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        const stat = await this.stat(uri);
+        const isDirectory = (stat.type & vscode.FileType.Directory) !== 0 && (stat.type & vscode.FileType.SymbolicLink) === 0;
+        const command = isDirectory && !options.recursive
+            ? ['rmdir', '--', uri.path]
+            : ['rm', '-rf', '--', uri.path];
+        await this.run(uri, command);
+        this._onDidChangeFile.fire([
+            { type: vscode.FileChangeType.Changed, uri: uri.with({ path: path.posix.dirname(uri.path) }) },
+            { type: vscode.FileChangeType.Deleted, uri }
+        ]);
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        if (oldUri.authority !== newUri.authority) {
+            throw vscode.FileSystemError.NoPermissions('Files can only be moved within the same container');
+        }
+        if (!options.overwrite && await this.exists(newUri)) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+        await this.run(oldUri, ['mv', '-f', '--', oldUri.path, newUri.path]);
+        this._onDidChangeFile.fire([
+            { type: vscode.FileChangeType.Deleted, uri: oldUri },
+            { type: vscode.FileChangeType.Created, uri: newUri }
+        ]);
+    }
+
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await this.stat(uri);
+            return true;
+        } catch (err) {
+            if (err instanceof vscode.FileSystemError && err.code === 'FileNotFound') {
+                return false;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Run a command in the container named by the URI, translating failures into file system errors
+     */
+    private async run(uri: vscode.Uri, command: string[], input?: Uint8Array): Promise<ExecOutput> {
+        const result = await this._cli.execInContainer(uri.authority, command, { input });
+        if (result.success && result.data) {
+            return result.data;
+        }
+        throw toFileSystemError(uri, result);
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._onDidChangeFile.dispose();
+    }
+}
+
+/**
+ * Translate a failed exec into the closest file system error
+ */
+function toFileSystemError(uri: vscode.Uri, result: CliResult<ExecOutput>): vscode.FileSystemError {
+    const message = result.data?.stderr.trim() || result.error || 'Command failed';
+    // The scripts exit with 2 when the path does not exist
+    if (result.exitCode === 2 || /no such file/i.test(message)) {
+        return vscode.FileSystemError.FileNotFound(uri);
+    }
+    if (result.cliError?.kind === CliErrorKind.PermissionDenied || /permission denied|read-only file system/i.test(message)) {
+        return vscode.FileSystemError.NoPermissions(`${uri.path}: ${message}`);
+    }
+    if (result.cliError?.kind === CliErrorKind.ServiceNotRunning || result.cliError?.kind === CliErrorKind.NotInstalled) {
+        return vscode.FileSystemError.Unavailable(message);
+    }
+    if (/is a directory/i.test(message)) {
+        return vscode.FileSystemError.FileIsADirectory(uri);
+    }
+    if (/not a directory/i.test(message)) {
+        return vscode.FileSystemError.FileNotADirectory(uri);
+    }
+    if (/file exists/i.test(message)) {
+        return vscode.FileSystemError.FileExists(uri);
+    }
+    return new vscode.FileSystemError(`${uri.path}: ${message}`);
+}
@@ -4,30 +4,158 @@
  */
 
 import * as vscode from 'vscode';
-import { ContainerCli } from '../cli';
-import { Container, ContainerStatus } from '../types';
+import { ContainerCli, isContainerActive } from '../cli';
+import { ContainerStateStore } from '../stateStore';
+import { ViewFilterStore, containerMatchesFilter } from '../viewFilters';
+import { Container, ContainerGrouping, ContainerInspect, ContainerStats, ContainerStatus } from '../types';
+import { ContainerDetailItem, ContainerSectionItem, buildContainerSections } from './containerDetails';
+
+// Label set by compose-style tools to identify a stack
+export const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+
+// Memory usage, as a percentage of the limit, at which the container icon changes colour
+export const MEMORY_WARNING_PERCENT = 80;
+export const MEMORY_CRITICAL_PERCENT = 95;
+
+/**
+ * Theme colour for a running container's icon based on memory pressure
+ */
+export function memoryPressureColor(stats: ContainerStats | undefined): string {
+    if (!stats || stats.memoryLimitBytes <= 0) {
+        return 'charts.green';
+    }
+    if (stats.memoryPercent >= MEMORY_CRITICAL_PERCENT) {
+        return 'charts.red';
+    }
+    return stats.memoryPercent >= MEMORY_WARNING_PERCENT ? 'charts.yellow' : 'charts.green';
+}
+
+/**
+ * A named group of containers
+ */
+export interface ContainerGroup {
+    key: string;
+    containers: Container[];
+}
+
+/**
+ * Split containers into groups for the given mode
+ * Containers without a value for the grouping key land in a group with an empty key, listed last
+ */
+export function groupContainers(containers: Container[], mode: ContainerGrouping, labelKey = ''): ContainerGroup[] {
+    const keyOf = (container: Container): string => {
+        switch (mode) {
+            case ContainerGrouping.ComposeProject:
+                return container.labels?.[COMPOSE_PROJECT_LABEL] ?? '';
+            case ContainerGrouping.Label:
+                return labelKey ? container.labels?.[labelKey] ?? '' : '';
+            case ContainerGrouping.Image:
+                return container.image;
+            case ContainerGrouping.Status:
+                return container.status;
+            default:
+                return '';
+        }
+    };
+
+    const groups = new Map<string, Container[]>();
+    for (const container of containers) {
+        const key = keyOf(container);
+        const group = groups.get(key);
+        if (group) {
+            group.push(container);
+        } else {
+            groups.set(key, [container]);
+        }
+    }
+
+    return Array.from(groups.entries())
+        .map(([key, members]) => ({ key, containers: members }))
+        .sort((a, b) => {
+            if (!a.key || !b.key) {
+                return a.key ? -1 : b.key ? 1 : 0;
+            }
+            return a.key.localeCompare(b.key);
+        });
+}
+
+/**
+ * Tree item representing a group of containers
+ */
+export class ContainerGroupItem extends vscode.TreeItem {
+    constructor(
+        public readonly group: ContainerGroup,
+        mode: ContainerGrouping
+    ) {
+        super(group.key || ContainerGroupItem.emptyLabel(mode), vscode.TreeItemCollapsibleState.Expanded);
+
+        const running = group.containers.filter(isContainerActive).length;
+        this.id = `group:${mode}:${group.key}`;
+        this.description = `${running}/${group.containers.length} running`;
+        this.contextValue = 'containerGroup';
+        this.iconPath = new vscode.ThemeIcon(ContainerGroupItem.icon(mode));
+    }
+
+    private static emptyLabel(mode: ContainerGrouping): string {
+        switch (mode) {
+            case ContainerGrouping.ComposeProject:
+                return '(no project)';
+            case ContainerGrouping.Label:
+                return '(no label)';
+            default:
+                return '(none)';
+        }
+    }
+
+    private static icon(mode: ContainerGrouping): string {
+        switch (mode) {
+            case ContainerGrouping.ComposeProject:
+                return 'layers';
+            case ContainerGrouping.Label:
+                return 'tag';
+            case ContainerGrouping.Image:
+                return 'package';
+            default:
+                return 'pulse';
+        }
+    }
+}
+
+/**
+ * Any node in the containers tree
+ */
+export type ContainerTreeItem = ContainerGroupItem | ContainerItem | ContainerSectionItem | ContainerDetailItem;
 
 /**
  * Tree item representing a container
  */
 export class ContainerItem extends vscode.TreeItem {
     constructor(
-        public readonly container: Container
+        public readonly container: Container,
+        public readonly stats?: ContainerStats
     ) {
-        super(container.name || container.id, vscode.TreeItemCollapsibleState.None);
+        // Expanding shows ports, mounts, environment, networks and limits from inspect
+        super(container.name || container.id, vscode.TreeItemCollapsibleState.Collapsed);
 
         const isRunning = container.status === ContainerStatus.Running;
 
         this.id = container.id;
-        this.description = container.image;
+        this.description = isRunning && stats
+            ? `${container.image} · ${stats.cpuPercent.toFixed(1)}% · ${stats.memoryUsage}`
+            : container.image;
         this.tooltip = this.createTooltip();
-        this.contextValue = isRunning ? 'runningContainer' : 'stoppedContainer';
-        this.iconPath = new vscode.ThemeIcon(
-            isRunning ? 'vm-running' : 'vm',
-            isRunning
-                ? new vscode.ThemeColor('charts.green')
-                : new vscode.ThemeColor('charts.gray')
-        );
+        if (container.status === ContainerStatus.Paused) {
+            this.contextValue = 'pausedContainer';
+            this.iconPath = new vscode.ThemeIcon('debug-pause', new vscode.ThemeColor('charts.yellow'));
+        } else {
+            this.contextValue = isRunning ? 'runningContainer' : 'stoppedContainer';
+            this.iconPath = new vscode.ThemeIcon(
+                isRunning ? 'vm-running' : 'vm',
+                isRunning
+                    ? new vscode.ThemeColor(memoryPressureColor(stats))
+                    : new vscode.ThemeColor('charts.gray')
+            );
+        }
     }
 
     private createTooltip(): vscode.MarkdownString {
@@ -45,79 +173,164 @@ export class ContainerItem extends vscode.TreeItem {
                 .join(', ');
             md.appendMarkdown(`- **Ports:** ${ports}\n`);
         }
+        if (this.stats && this.container.status === ContainerStatus.Running) {
+            const { stats } = this;
+            md.appendMarkdown(`- **CPU:** ${stats.cpuPercent.toFixed(1)}%\n`);
+            md.appendMarkdown(stats.memoryLimitBytes > 0
+                ? `- **Memory:** ${stats.memoryUsage} / ${stats.memoryLimit} (${stats.memoryPercent.toFixed(0)}%)\n`
+                : `- **Memory:** ${stats.memoryUsage}\n`);
+        }
         return md;
     }
 }
 
 /**
  * Containers tree data provider
+ * Files dropped on a running container are copied into it
  */
-export class ContainersProvider implements vscode.TreeDataProvider<ContainerItem> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<ContainerItem | undefined | null | void>();
+export class ContainersProvider implements vscode.TreeDataProvider<ContainerTreeItem>, vscode.TreeDragAndDropController<ContainerTreeItem> {
+    readonly dropMimeTypes = ['text/uri-list'];
+    readonly dragMimeTypes: string[] = [];
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<ContainerTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
     private _containers: Container[] = [];
-    private _refreshTimer: ReturnType<typeof setInterval> | undefined;
-    private _initialLoadDone = false;
-
-    constructor(private readonly _cli: ContainerCli) {
-        this.startAutoRefresh();
-    }
-
-    /**
-     * Start auto-refresh timer
-     */
-    private startAutoRefresh(): void {
-        const interval = this._cli.config.refreshInterval;
-        if (interval > 0) {
-            this._refreshTimer = setInterval(() => {
-                this.refresh();
-            }, interval);
-        }
-    }
+    private _stats: ContainerStats[] = [];
+    private _statsById = new Map<string, ContainerStats>();
+    // Inspect results for expanded containers, dropped whenever the container list changes
+    private _inspectCache = new Map<string, Promise<ContainerInspect | undefined>>();
+    private _disposables: vscode.Disposable[] = [];
 
-    /**
-     * Stop auto-refresh timer
-     */
-    stopAutoRefresh(): void {
-        if (this._refreshTimer) {
-            clearInterval(this._refreshTimer);
-            this._refreshTimer = undefined;
-        }
+    constructor(
+        private readonly _store: ContainerStateStore,
+        private readonly _cli: ContainerCli,
+        private readonly _filters: ViewFilterStore
+    ) {
+        this._containers = _store.snapshot.containers;
+        this._stats = _store.snapshot.stats;
+        this._disposables.push(
+            _store.onDidChange((snapshot) => {
+                // Slices keep their reference when unchanged, so only re-render on real changes
+                const containersChanged = snapshot.containers !== this._containers;
+                if (containersChanged) {
+                    this._containers = snapshot.containers;
+                    this._inspectCache.clear();
+                }
+                // New usage numbers only relabel items; expanded details stay cached
+                const statsChanged = snapshot.stats !== this._stats;
+                if (statsChanged) {
+                    this._stats = snapshot.stats;
+                    this._statsById = new Map(snapshot.stats.map(s => [s.id, s]));
+                }
+                if (containersChanged || statsChanged) {
+                    this._onDidChangeTreeData.fire();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('appleContainers.containerGrouping') ||
+                    e.affectsConfiguration('appleContainers.groupingLabel')) {
+                    this._onDidChangeTreeData.fire();
+                }
+            }),
+            _filters.onDidChange((view) => {
+                if (view === 'containers') {
+                    this._onDidChangeTreeData.fire();
+                }
+            })
+        );
     }
 
     /**
      * Refresh the tree view
      */
     async refresh(): Promise<void> {
-        const showAll = this._cli.config.showStoppedContainers;
-        this._containers = await this._cli.listContainers(showAll);
-        this._initialLoadDone = true;
-        this._onDidChangeTreeData.fire();
+        this._inspectCache.clear();
+        await this._store.refresh();
     }
 
     /**
      * Get tree item
      */
-    getTreeItem(element: ContainerItem): vscode.TreeItem {
+    getTreeItem(element: ContainerTreeItem): vscode.TreeItem {
         return element;
     }
 
     /**
      * Get children
      */
-    async getChildren(element?: ContainerItem): Promise<ContainerItem[]> {
+    async getChildren(element?: ContainerTreeItem): Promise<ContainerTreeItem[]> {
+        if (element instanceof ContainerGroupItem) {
+            return element.group.containers.map(c => new ContainerItem(c, this._statsById.get(c.id)));
+        }
+        if (element instanceof ContainerItem) {
+            return this.getDetailSections(element.container.id);
+        }
+        if (element instanceof ContainerSectionItem) {
+            return element.children;
+        }
         if (element) {
-            return []; // Containers don't have children
+            return [];
         }
 
         // Only trigger refresh if initial load hasn't happened
         // This prevents redundant CLI calls when there are genuinely no containers
-        if (!this._initialLoadDone) {
+        if (!this._store.hasLoaded) {
             await this.refresh();
         }
 
-        return this._containers.map(c => new ContainerItem(c));
+        const filter = this._filters.get('containers');
+        const containers = this._containers.filter(c => containerMatchesFilter(c, filter, this._filters.scope));
+
+        const { containerGrouping, groupingLabel } = this._cli.config;
+        if (containerGrouping === ContainerGrouping.None || containers.length === 0) {
+            return containers.map(c => new ContainerItem(c, this._statsById.get(c.id)));
+        }
+
+        return groupContainers(containers, containerGrouping, groupingLabel)
+            .map(g => new ContainerGroupItem(g, containerGrouping));
+    }
+
+    /**
+     * Inspect a container once per snapshot and build its detail sections
+     */
+    private async getDetailSections(id: string): Promise<ContainerSectionItem[]> {
+        let inspect = this._inspectCache.get(id);
+        if (!inspect) {
+            inspect = this._cli.inspectContainer(id);
+            this._inspectCache.set(id, inspect);
+        }
+        const result = await inspect;
+        return result ? buildContainerSections(id, result) : [];
+    }
+
+    /**
+     * Copy files dropped from the Explorer or the OS onto a running container
+     */
+    async handleDrop(target: ContainerTreeItem | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+        if (!(target instanceof ContainerItem) || target.container.status !== ContainerStatus.Running) {
+            return;
+        }
+        const uriList = await dataTransfer.get('text/uri-list')?.asString();
+        if (!uriList || token.isCancellationRequested) {
+            return;
+        }
+        // text/uri-list has one URI per line and allows # comments
+        const uris = uriList.split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#'))
+            .map(line => vscode.Uri.parse(line))
+            .filter(uri => uri.scheme === 'file');
+        if (uris.length > 0) {
+            await vscode.commands.executeCommand('appleContainers.copyIntoContainer', target, uris);
+        }
+    }
+
+    /**
+     * Containers in the latest snapshot
+     */
+    get containers(): readonly Container[] {
+        return this._containers;
     }
 
     /**
@@ -131,7 +344,7 @@ export class ContainersProvider implements vscode.TreeDataProvider<ContainerItem
      * Dispose resources
      */
     dispose(): void {
-        this.stopAutoRefresh();
+        this._disposables.forEach(d => d.dispose());
         this._onDidChangeTreeData.dispose();
     }
 }
@@ -4,8 +4,9 @@
  */
 
 import * as vscode from 'vscode';
-import { ContainerCli } from '../cli';
-import { Image } from '../types';
+import { ContainerStateStore } from '../stateStore';
+import { ViewFilterStore, containerInWorkspace, imageMatchesFilter } from '../viewFilters';
+import { Container, Image } from '../types';
 
 /**
  * Tree item representing an image
@@ -64,40 +65,39 @@ export class ImagesProvider implements vscode.TreeDataProvider<ImageItem> {
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
     private _images: Image[] = [];
-    private _refreshTimer: ReturnType<typeof setInterval> | undefined;
+    private _containers: Container[] = [];
+    private _disposables: vscode.Disposable[] = [];
 
-    constructor(private readonly _cli: ContainerCli) {
-        this.startAutoRefresh();
-    }
-
-    /**
-     * Start auto-refresh timer
-     */
-    private startAutoRefresh(): void {
-        const interval = this._cli.config.refreshInterval;
-        if (interval > 0) {
-            this._refreshTimer = setInterval(() => {
-                this.refresh();
-            }, interval);
-        }
-    }
-
-    /**
-     * Stop auto-refresh timer
-     */
-    stopAutoRefresh(): void {
-        if (this._refreshTimer) {
-            clearInterval(this._refreshTimer);
-            this._refreshTimer = undefined;
-        }
+    constructor(
+        private readonly _store: ContainerStateStore,
+        private readonly _filters: ViewFilterStore
+    ) {
+        this._images = _store.snapshot.images;
+        this._containers = _store.snapshot.containers;
+        this._disposables.push(
+            _store.onDidChange((snapshot) => {
+                // Containers decide which images belong to the workspace, so they matter only for that filter
+                const containersChanged = snapshot.containers !== this._containers &&
+                    this._filters.get('images').workspaceOnly;
+                this._containers = snapshot.containers;
+                if (snapshot.images !== this._images || containersChanged) {
+                    this._images = snapshot.images;
+                    this._onDidChangeTreeData.fire();
+                }
+            }),
+            _filters.onDidChange((view) => {
+                if (view === 'images') {
+                    this._onDidChangeTreeData.fire();
+                }
+            })
+        );
     }
 
     /**
      * Refresh the tree view
      */
     async refresh(): Promise<void> {
-        this._images = await this._cli.listImages();
-        this._onDidChangeTreeData.fire();
+        await this._store.refresh();
     }
 
     /**
@@ -116,12 +116,18 @@ export class ImagesProvider implements vscode.TreeDataProvider<ImageItem> {
         }
 
         // Root level - return all images
-        if (this._images.length === 0) {
+        if (!this._store.hasLoaded) {
             await this.refresh();
         }
 
         // Sort by repository name, then by tag
+        const filter = this._filters.get('images');
+        const scope = this._filters.scope;
+        const workspaceContainers = filter.workspaceOnly
+            ? this._containers.filter(c => containerInWorkspace(c, scope))
+            : [];
         return this._images
+            .filter(i => imageMatchesFilter(i, filter, scope, workspaceContainers))
             .sort((a, b) => {
                 const repoA = a.repository || '';
                 const repoB = b.repository || '';
@@ -144,7 +150,7 @@ export class ImagesProvider implements vscode.TreeDataProvider<ImageItem> {
      * Dispose resources
      */
     dispose(): void {
-        this.stopAutoRefresh();
+        this._disposables.forEach(d => d.dispose());
         this._onDidChangeTreeData.dispose();
     }
 }
@@ -2,7 +2,18 @@
  * Provider exports
  */
 
-export { ContainersProvider, ContainerItem } from './containersProvider';
+export { ContainersProvider, ContainerItem, ContainerGroupItem } from './containersProvider';
+export {
+    ContainerSectionItem,
+    PortItem,
+    MountItem,
+    EnvVarItem,
+    NetworkAttachmentItem,
+    ResourceLimitItem
+} from './containerDetails';
 export { ImagesProvider, ImageItem } from './imagesProvider';
 export { VolumesProvider, VolumeItem } from './volumesProvider';
 export { NetworksProvider, NetworkItem } from './networksProvider';
+export { ProfilesProvider, ProfileItem } from './profilesProvider';
+export { LogDocumentProvider } from './logDocumentProvider';
+export { ContainerFileSystemProvider } from './containerFileSystem';
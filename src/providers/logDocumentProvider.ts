@@ -0,0 +1,336 @@
+/**
+ * Container Log Documents
+ * Read-only `container-logs:` documents that stream `container logs --follow`
+ */
+
+import * as vscode from 'vscode';
+import { CliProcess, ContainerCli } from '../cli';
+
+export const LOGS_SCHEME = 'container-logs';
+
+// Oldest lines are dropped beyond this many to keep long-running streams bounded
+const MAX_LOG_LINES = 20000;
+
+// Coalesce bursts of output into one document update
+const UPDATE_DELAY_MS = 200;
+
+/**
+ * Options controlling which log lines are shown and how
+ */
+export interface LogQuery {
+    /** Lines fetched from the end of the log when the stream starts; 0 for all */
+    tail: number;
+    /** Duration such as 10m or 2h, or an ISO date; matched against timestamps in the lines, so lines without one are always kept */
+    since: string;
+    /** Prefix each line with its logged time, or the time it was received when the line has none */
+    timestamps: boolean;
+    /** Case-insensitive regular expression lines must match */
+    filter: string;
+}
+
+/**
+ * A received log line
+ */
+export interface LogLine {
+    text: string;
+    received: Date;
+    /** Timestamp written in the line, or inherited from the previous timestamped line */
+    time?: Date;
+}
+
+// ISO-8601 style timestamp at the start of a line, optionally in brackets
+const TIMESTAMP_PATTERN = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)/;
+
+/**
+ * Read the timestamp a log line starts with
+ */
+export function parseLogTimestamp(text: string): Date | undefined {
+    const match = TIMESTAMP_PATTERN.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    const date = new Date(match[1].replace(' ', 'T').replace(',', '.'));
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a since value: a duration such as 30s, 10m, 2h or 1d, or an absolute date
+ * @returns the start time, or undefined when empty or invalid
+ */
+export function parseSince(value: string, now = new Date()): Date | undefined {
+    const trimmed = value.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+    const duration = /^(\d+)\s*(s|m|h|d)$/i.exec(trimmed);
+    if (duration) {
+        const unitMs: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+        return new Date(now.getTime() - parseInt(duration[1], 10) * unitMs[duration[2].toLowerCase()]);
+    }
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Compile a filter into a case-insensitive regular expression
+ * @returns the expression, or an error message
+ */
+export function compileLogFilter(filter: string): RegExp | string | undefined {
+    if (!filter) {
+        return undefined;
+    }
+    try {
+        return new RegExp(filter, 'i');
+    } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+    }
+}
+
+/**
+ * Time shown for a line: the one logged with it, otherwise when the extension read it, marked as such
+ */
+function formatLogTime(line: LogLine): string {
+    return line.time ? line.time.toISOString() : `${line.received.toISOString()} (received)`;
+}
+
+/**
+ * Apply a query to received lines and render them as text lines
+ */
+export function renderLogLines(lines: readonly LogLine[], query: LogQuery, now = new Date()): string[] {
+    const since = parseSince(query.since, now);
+    const filter = compileLogFilter(query.filter);
+    const pattern = filter instanceof RegExp ? filter : undefined;
+
+    const rendered: string[] = [];
+    for (const line of lines) {
+        // Lines without any known timestamp are kept, since their age is unknown
+        if (since && line.time && line.time < since) {
+            continue;
+        }
+        if (pattern && !pattern.test(line.text)) {
+            continue;
+        }
+        rendered.push(query.timestamps ? `${formatLogTime(line)} ${line.text}` : line.text);
+    }
+    return rendered;
+}
+
+/**
+ * Build the URI of the log document for a container
+ */
+export function createLogUri(containerId: string, name: string): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: LOGS_SCHEME,
+        path: `/${name || containerId.substring(0, 12)}.log`,
+        query: encodeURIComponent(containerId)
+    });
+}
+
+/**
+ * Whether any editor tab still shows a document
+ */
+function isShownInTab(uri: vscode.Uri): boolean {
+    const key = uri.toString();
+    return vscode.window.tabGroups.all.some(group => group.tabs.some(tab =>
+        tab.input instanceof vscode.TabInputText && tab.input.uri.toString() === key
+    ));
+}
+
+/**
+ * One log stream feeding one document
+ */
+class LogSession implements vscode.Disposable {
+    readonly lines: LogLine[] = [];
+    ended: string | undefined;
+
+    private _process: CliProcess | undefined;
+    private _lastTime: Date | undefined;
+
+    constructor(
+        private readonly _cli: ContainerCli,
+        readonly containerId: string,
+        public query: LogQuery,
+        private readonly _onUpdate: () => void
+    ) { }
+
+    /**
+     * (Re)start streaming from the configured tail
+     */
+    start(): void {
+        this._process?.dispose();
+        this.lines.length = 0;
+        this.ended = undefined;
+        this._lastTime = undefined;
+
+        const process = this._cli.streamLogs(this.containerId, {
+            follow: true,
+            tail: this.query.tail > 0 ? this.query.tail : undefined
+        });
+        this._process = process;
+
+        process.onDidOutputLine(({ text }) => {
+            const time = parseLogTimestamp(text) ?? this._lastTime;
+            this._lastTime = time;
+            this.lines.push({ text, received: new Date(), time });
+            if (this.lines.length > MAX_LOG_LINES) {
+                this.lines.splice(0, this.lines.length - MAX_LOG_LINES);
+            }
+            this._onUpdate();
+        });
+        void process.completion.then((result) => {
+            if (this._process !== process) {
+                return;
+            }
+            this.ended = result.success || result.cancelled
+                ? 'Log stream ended'
+                : `Log stream ended: ${result.cliError?.message || result.error || 'unknown error'}`;
+            this._onUpdate();
+        });
+    }
+
+    /**
+     * Lines matching the current query
+     */
+    render(): string[] {
+        return renderLogLines(this.lines, this.query);
+    }
+
+    dispose(): void {
+        this._process?.dispose();
+        this._process = undefined;
+    }
+}
+
+/**
+ * Content provider for the `container-logs:` scheme
+ */
+export class LogDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private _sessions = new Map<string, LogSession>();
+    private _pending = new Map<string, ReturnType<typeof setTimeout>>();
+    private _lineCounts = new Map<string, number>();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _cli: ContainerCli) {
+        this._disposables.push(
+            vscode.workspace.onDidCloseTextDocument((doc) => {
+                // Changing the language also closes and reopens the document, while its tab stays open
+                if (doc.uri.scheme === LOGS_SCHEME && !isShownInTab(doc.uri)) {
+                    this.closeSession(doc.uri);
+                }
+            })
+        );
+    }
+
+    /**
+     * Provide the current log text, starting the stream on first use
+     */
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const session = this.getSession(uri);
+        const lines = session.render();
+        if (session.ended) {
+            lines.push('', `--- ${session.ended} ---`);
+        }
+        this._lineCounts.set(uri.toString(), lines.length);
+        return lines.join('\n');
+    }
+
+    /**
+     * Current query of a log document
+     */
+    getQuery(uri: vscode.Uri): LogQuery {
+        return { ...this.getSession(uri).query };
+    }
+
+    /**
+     * Change the query; a new tail restarts the stream, other options only re-render
+     */
+    updateQuery(uri: vscode.Uri, changes: Partial<LogQuery>): void {
+        const session = this.getSession(uri);
+        const restart = changes.tail !== undefined && changes.tail !== session.query.tail;
+        session.query = { ...session.query, ...changes };
+        if (restart) {
+            session.start();
+        }
+        this._onDidChange.fire(uri);
+    }
+
+    /**
+     * Restart the stream of a log document
+     */
+    reload(uri: vscode.Uri): void {
+        this.getSession(uri).start();
+        this._onDidChange.fire(uri);
+    }
+
+    /**
+     * Log text matching the current query, without status lines
+     */
+    getText(uri: vscode.Uri): string {
+        return this.getSession(uri).render().join('\n');
+    }
+
+    private getSession(uri: vscode.Uri): LogSession {
+        const key = uri.toString();
+        let session = this._sessions.get(key);
+        if (!session) {
+            const query: LogQuery = { tail: this._cli.config.logTail, since: '', timestamps: false, filter: '' };
+            session = new LogSession(this._cli, decodeURIComponent(uri.query), query, () => this.scheduleUpdate(uri));
+            this._sessions.set(key, session);
+            session.start();
+        }
+        return session;
+    }
+
+    private closeSession(uri: vscode.Uri): void {
+        const key = uri.toString();
+        this._sessions.get(key)?.dispose();
+        this._sessions.delete(key);
+        this._lineCounts.delete(key);
+        const timer = this._pending.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this._pending.delete(key);
+        }
+    }
+
+    /**
+     * Fire a change once output settles, keeping editors scrolled to the end if they were there
+     */
+    private scheduleUpdate(uri: vscode.Uri): void {
+        const key = uri.toString();
+        if (this._pending.has(key)) {
+            return;
+        }
+        this._pending.set(key, setTimeout(() => {
+            this._pending.delete(key);
+            const previousLineCount = this._lineCounts.get(key) ?? 0;
+            const following = vscode.window.visibleTextEditors.filter(editor =>
+                editor.document.uri.toString() === key &&
+                editor.visibleRanges.some(range => range.end.line >= previousLineCount - 2)
+            );
+            this._onDidChange.fire(uri);
+
+            // The document is re-read asynchronously, so reveal the end once it has updated
+            setTimeout(() => {
+                for (const editor of following) {
+                    const end = editor.document.lineAt(editor.document.lineCount - 1).range.end;
+                    editor.revealRange(new vscode.Range(end, end), vscode.TextEditorRevealType.Default);
+                }
+            }, 50);
+        }, UPDATE_DELAY_MS));
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        for (const key of Array.from(this._sessions.keys())) {
+            this.closeSession(vscode.Uri.parse(key));
+        }
+        this._disposables.forEach(d => d.dispose());
+        this._onDidChange.dispose();
+    }
+}
@@ -4,7 +4,8 @@
  */
 
 import * as vscode from 'vscode';
-import { ContainerCli } from '../cli';
+import { ContainerStateStore } from '../stateStore';
+import { ViewFilterStore, namedResourceMatchesFilter } from '../viewFilters';
 import { Network } from '../types';
 
 /**
@@ -65,40 +66,33 @@ export class NetworksProvider implements vscode.TreeDataProvider<NetworkItem> {
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
     private _networks: Network[] = [];
-    private _refreshTimer: ReturnType<typeof setInterval> | undefined;
+    private _disposables: vscode.Disposable[] = [];
 
-    constructor(private readonly _cli: ContainerCli) {
-        this.startAutoRefresh();
-    }
-
-    /**
-     * Start auto-refresh timer
-     */
-    private startAutoRefresh(): void {
-        const interval = this._cli.config.refreshInterval;
-        if (interval > 0) {
-            this._refreshTimer = setInterval(() => {
-                this.refresh();
-            }, interval);
-        }
-    }
-
-    /**
-     * Stop auto-refresh timer
-     */
-    stopAutoRefresh(): void {
-        if (this._refreshTimer) {
-            clearInterval(this._refreshTimer);
-            this._refreshTimer = undefined;
-        }
+    constructor(
+        private readonly _store: ContainerStateStore,
+        private readonly _filters: ViewFilterStore
+    ) {
+        this._networks = _store.snapshot.networks;
+        this._disposables.push(
+            _store.onDidChange((snapshot) => {
+                if (snapshot.networks !== this._networks) {
+                    this._networks = snapshot.networks;
+                    this._onDidChangeTreeData.fire();
+                }
+            }),
+            _filters.onDidChange((view) => {
+                if (view === 'networks') {
+                    this._onDidChangeTreeData.fire();
+                }
+            })
+        );
     }
 
     /**
      * Refresh the tree view
      */
     async refresh(): Promise<void> {
-        this._networks = await this._cli.listNetworks();
-        this._onDidChangeTreeData.fire();
+        await this._store.refresh();
     }
 
     /**
@@ -117,11 +111,13 @@ export class NetworksProvider implements vscode.TreeDataProvider<NetworkItem> {
         }
 
         // Root level - return all networks
-        if (this._networks.length === 0) {
+        if (!this._store.hasLoaded) {
             await this.refresh();
         }
 
+        const filter = this._filters.get('networks');
         return this._networks
+            .filter(n => namedResourceMatchesFilter(n.name, n.labels, filter, this._filters.scope))
             .sort((a, b) => a.name.localeCompare(b.name))
             .map(n => new NetworkItem(n));
     }
@@ -137,7 +133,7 @@ export class NetworksProvider implements vscode.TreeDataProvider<NetworkItem> {
      * Dispose resources
      */
     dispose(): void {
-        this.stopAutoRefresh();
+        this._disposables.forEach(d => d.dispose());
         this._onDidChangeTreeData.dispose();
     }
 }
@@ -0,0 +1,85 @@
+/**
+ * Run Profiles TreeView Provider
+ * Displays saved run profiles from the workspace
+ */
+
+import * as vscode from 'vscode';
+import { buildRunArgs, formatCommandLine, terminalRunOptions } from '../cli';
+import { RunProfile, RunProfileStore } from '../runProfiles';
+
+/**
+ * Tree item representing a run profile
+ */
+export class ProfileItem extends vscode.TreeItem {
+    constructor(
+        public readonly profile: RunProfile,
+        showFolder: boolean
+    ) {
+        super(profile.name, vscode.TreeItemCollapsibleState.None);
+
+        this.id = `${profile.folder.uri.toString()}#${profile.name}`;
+        this.description = showFolder ? `${profile.options.image} · ${profile.folder.name}` : profile.options.image;
+        this.tooltip = this.createTooltip();
+        this.contextValue = 'runProfile';
+        this.iconPath = new vscode.ThemeIcon('rocket');
+    }
+
+    private createTooltip(): vscode.MarkdownString {
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**${this.profile.name}**\n\n`);
+        const options = this.profile.options;
+        const args = buildRunArgs(options.detach ? options : terminalRunOptions(options));
+        md.appendCodeblock(formatCommandLine('container', args), 'shell');
+        md.appendMarkdown(`\nDefined in \`${vscode.workspace.asRelativePath(this.profile.uri)}\``);
+        return md;
+    }
+}
+
+/**
+ * Run profiles tree data provider
+ */
+export class ProfilesProvider implements vscode.TreeDataProvider<ProfileItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ProfileItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private _storeListener: vscode.Disposable;
+
+    constructor(private readonly _profiles: RunProfileStore) {
+        this._storeListener = _profiles.onDidChange(() => this._onDidChangeTreeData.fire());
+    }
+
+    /**
+     * Refresh the tree view
+     */
+    async refresh(): Promise<void> {
+        await this._profiles.reload();
+    }
+
+    /**
+     * Get tree item
+     */
+    getTreeItem(element: ProfileItem): vscode.TreeItem {
+        return element;
+    }
+
+    /**
+     * Get children
+     */
+    async getChildren(element?: ProfileItem): Promise<ProfileItem[]> {
+        if (element) {
+            return []; // Profiles don't have children
+        }
+
+        // Only label the folder when profiles come from more than one
+        const showFolder = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        return this._profiles.profiles.map(p => new ProfileItem(p, showFolder));
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._storeListener.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -4,7 +4,8 @@
  */
 
 import * as vscode from 'vscode';
-import { ContainerCli } from '../cli';
+import { ContainerStateStore } from '../stateStore';
+import { ViewFilterStore, namedResourceMatchesFilter } from '../viewFilters';
 import { Volume } from '../types';
 
 /**
@@ -56,40 +57,33 @@ export class VolumesProvider implements vscode.TreeDataProvider<VolumeItem> {
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
     private _volumes: Volume[] = [];
-    private _refreshTimer: ReturnType<typeof setInterval> | undefined;
+    private _disposables: vscode.Disposable[] = [];
 
-    constructor(private readonly _cli: ContainerCli) {
-        this.startAutoRefresh();
-    }
-
-    /**
-     * Start auto-refresh timer
-     */
-    private startAutoRefresh(): void {
-        const interval = this._cli.config.refreshInterval;
-        if (interval > 0) {
-            this._refreshTimer = setInterval(() => {
-                this.refresh();
-            }, interval);
-        }
-    }
-
-    /**
-     * Stop auto-refresh timer
-     */
-    stopAutoRefresh(): void {
-        if (this._refreshTimer) {
-            clearInterval(this._refreshTimer);
-            this._refreshTimer = undefined;
-        }
+    constructor(
+        private readonly _store: ContainerStateStore,
+        private readonly _filters: ViewFilterStore
+    ) {
+        this._volumes = _store.snapshot.volumes;
+        this._disposables.push(
+            _store.onDidChange((snapshot) => {
+                if (snapshot.volumes !== this._volumes) {
+                    this._volumes = snapshot.volumes;
+                    this._onDidChangeTreeData.fire();
+                }
+            }),
+            _filters.onDidChange((view) => {
+                if (view === 'volumes') {
+                    this._onDidChangeTreeData.fire();
+                }
+            })
+        );
     }
 
     /**
      * Refresh the tree view
      */
     async refresh(): Promise<void> {
-        this._volumes = await this._cli.listVolumes();
-        this._onDidChangeTreeData.fire();
+        await this._store.refresh();
     }
 
     /**
@@ -108,11 +102,13 @@ export class VolumesProvider implements vscode.TreeDataProvider<VolumeItem> {
         }
 
         // Root level - return all volumes
-        if (this._volumes.length === 0) {
+        if (!this._store.hasLoaded) {
             await this.refresh();
         }
 
+        const filter = this._filters.get('volumes');
         return this._volumes
+            .filter(v => namedResourceMatchesFilter(v.name, v.labels, filter, this._filters.scope))
             .sort((a, b) => a.name.localeCompare(b.name))
             .map(v => new VolumeItem(v));
     }
@@ -128,7 +124,7 @@ export class VolumesProvider implements vscode.TreeDataProvider<VolumeItem> {
      * Dispose resources
      */
     dispose(): void {
-        this.stopAutoRefresh();
+        this._disposables.forEach(d => d.dispose());
         this._onDidChangeTreeData.dispose();
     }
 }
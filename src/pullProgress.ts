@@ -0,0 +1,160 @@
+/**
+ * Pull Progress Parser
+ * Turns `container image pull` output into per-layer and overall progress
+ */
+
+/**
+ * Progress of a single image layer (blob)
+ */
+export interface LayerProgress {
+    id: string;
+    status: string;
+    current?: number;
+    total?: number;
+    done: boolean;
+}
+
+/**
+ * Snapshot of the overall pull progress
+ */
+export interface PullProgress {
+    /** Overall completion between 0 and 100, if known */
+    percent?: number;
+    /** Human readable description of the latest step */
+    message: string;
+    layers: LayerProgress[];
+}
+
+// Strips ANSI colour and cursor sequences used by the CLI progress bar
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[A-Za-z]`, 'g');
+
+// Docker-style layer line: "<digest>: Downloading 12.3MB/45.6MB"
+const LAYER_PATTERN = /^(?:sha256:)?([0-9a-f]{12,64}):\s+(.+?)(?:\s+([\d.]+\s*[KMGT]?i?B)\s*\/\s*([\d.]+\s*[KMGT]?i?B))?\s*$/i;
+
+// Aggregate progress: "Fetching image 45% (3 of 5 blobs, 25.6/57.3 MB, 8.2 MB/s)"
+const PERCENT_PATTERN = /(\d+(?:\.\d+)?)\s*%/;
+const BLOBS_PATTERN = /(\d+)\s+of\s+(\d+)\s+blobs/i;
+
+// Layer statuses that mean the layer needs no more work
+const LAYER_DONE_PATTERN = /^(pull complete|already exists|download complete|verifying checksum|extracting|complete)/i;
+
+const SIZE_UNITS: Record<string, number> = {
+    b: 1,
+    kb: 1000, mb: 1000 ** 2, gb: 1000 ** 3, tb: 1000 ** 4,
+    kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4
+};
+
+/**
+ * Parse a size such as "12.3MB" or "4 KiB" into bytes
+ */
+export function parseSize(value: string): number | undefined {
+    const match = /^([\d.]+)\s*([KMGT]?i?B)$/i.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+    const unit = SIZE_UNITS[match[2].toLowerCase()];
+    return unit !== undefined ? parseFloat(match[1]) * unit : undefined;
+}
+
+/**
+ * Incremental parser for image pull output
+ */
+export class PullProgressParser {
+    private _layers = new Map<string, LayerProgress>();
+    private _percent: number | undefined;
+    private _message = '';
+
+    /**
+     * Feed one output line; returns the updated progress if the line was meaningful
+     */
+    parse(rawLine: string): PullProgress | undefined {
+        const line = rawLine.replace(ANSI_PATTERN, '').trim();
+        if (!line) {
+            return undefined;
+        }
+
+        const layerMatch = LAYER_PATTERN.exec(line);
+        if (layerMatch) {
+            const [, id, status, current, total] = layerMatch;
+            const layer: LayerProgress = {
+                id: id.substring(0, 12),
+                status,
+                current: current ? parseSize(current) : undefined,
+                total: total ? parseSize(total) : undefined,
+                done: LAYER_DONE_PATTERN.test(status)
+            };
+            this._layers.set(layer.id, layer);
+            this._percent = this.computeLayerPercent();
+            this._message = this.describeLayers();
+            return this.snapshot();
+        }
+
+        const percentMatch = PERCENT_PATTERN.exec(line);
+        if (percentMatch) {
+            this._percent = Math.min(100, parseFloat(percentMatch[1]));
+        }
+        const blobsMatch = BLOBS_PATTERN.exec(line);
+        if (blobsMatch) {
+            this.trackBlobs(parseInt(blobsMatch[1], 10), parseInt(blobsMatch[2], 10));
+        }
+
+        this._message = line;
+        return this.snapshot();
+    }
+
+    /**
+     * Current progress snapshot
+     */
+    snapshot(): PullProgress {
+        return {
+            percent: this._percent,
+            message: this._message,
+            layers: Array.from(this._layers.values())
+        };
+    }
+
+    /**
+     * Record blob counts reported as "N of M blobs" as anonymous layers
+     */
+    private trackBlobs(completed: number, total: number): void {
+        for (let i = 0; i < total; i++) {
+            const id = `blob ${i + 1}`;
+            this._layers.set(id, {
+                id,
+                status: i < completed ? 'complete' : 'pending',
+                done: i < completed
+            });
+        }
+    }
+
+    /**
+     * Overall percentage derived from per-layer byte counts
+     */
+    private computeLayerPercent(): number | undefined {
+        const layers = Array.from(this._layers.values());
+        if (layers.length === 0) {
+            return undefined;
+        }
+
+        let sum = 0;
+        for (const layer of layers) {
+            if (layer.done) {
+                sum += 1;
+            } else if (layer.current !== undefined && layer.total) {
+                sum += Math.min(1, layer.current / layer.total);
+            }
+        }
+        return Math.round((sum / layers.length) * 100);
+    }
+
+    /**
+     * Short summary such as "2/5 layers complete, a1b2c3d4e5f6: Downloading"
+     */
+    private describeLayers(): string {
+        const layers = Array.from(this._layers.values());
+        const done = layers.filter(l => l.done).length;
+        const active = layers.find(l => !l.done);
+        const summary = `${done}/${layers.length} layers complete`;
+        return active ? `${summary}, ${active.id}: ${active.status}` : summary;
+    }
+}
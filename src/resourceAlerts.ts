@@ -0,0 +1,181 @@
+/**
+ * Resource Alerts
+ * Warns when a container's CPU or memory stays above a configured threshold
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli } from './cli';
+import { matchesWatchList } from './containerEvents';
+import { ContainerItem } from './providers/containersProvider';
+import { ContainerStateStore } from './stateStore';
+import { Container, ContainerStats, ResourceAlertRule } from './types';
+
+// Consecutive samples required when a rule does not say
+const DEFAULT_ALERT_SAMPLES = 3;
+
+// Share of the refresh interval two samples must be apart; timer polls are timed from the end of the previous one
+const MIN_SAMPLE_SPACING = 0.8;
+
+/**
+ * Whether a snapshot counts as a new sample
+ * Refreshes after commands, focus or configuration changes come sooner than the interval and are skipped
+ * @param previous time of the last counted sample
+ */
+export function isAlertSample(previous: number | undefined, timestamp: number, refreshInterval: number): boolean {
+    return previous === undefined || timestamp - previous >= refreshInterval * MIN_SAMPLE_SPACING;
+}
+
+/**
+ * Check whether a container carries a label given as `key` or `key=value`
+ */
+export function matchesLabel(container: Container, label: string): boolean {
+    const separator = label.indexOf('=');
+    const key = separator === -1 ? label : label.substring(0, separator);
+    const value = container.labels?.[key];
+    if (value === undefined) {
+        return false;
+    }
+    return separator === -1 || value === label.substring(separator + 1);
+}
+
+/**
+ * Pick the rule that applies to a container for a metric
+ * The first matching container rule wins, then the first label rule, then the first global rule
+ */
+export function resolveAlertRule(
+    rules: readonly ResourceAlertRule[],
+    container: Container,
+    metric: ResourceAlertRule['metric']
+): ResourceAlertRule | undefined {
+    const candidates = rules.filter(r => r.metric === metric && typeof r.threshold === 'number');
+    return candidates.find(r => r.container && matchesWatchList(container, [r.container]))
+        ?? candidates.find(r => !r.container && r.label && matchesLabel(container, r.label))
+        ?? candidates.find(r => !r.container && !r.label);
+}
+
+/**
+ * Counts consecutive samples over a threshold per key and reports once per breach
+ */
+export class ThresholdTracker {
+    private _counts = new Map<string, number>();
+
+    /**
+     * Record a sample
+     * @returns true when this sample completes the required run, so each breach alerts once
+     */
+    record(key: string, over: boolean, required: number): boolean {
+        if (!over) {
+            this._counts.delete(key);
+            return false;
+        }
+        const count = (this._counts.get(key) ?? 0) + 1;
+        this._counts.set(key, count);
+        return count === Math.max(1, required);
+    }
+
+    /**
+     * Forget keys that were not sampled, e.g. containers that stopped
+     */
+    retain(keys: ReadonlySet<string>): void {
+        for (const key of Array.from(this._counts.keys())) {
+            if (!keys.has(key)) {
+                this._counts.delete(key);
+            }
+        }
+    }
+}
+
+/**
+ * Evaluates alert rules against every stats sample in the shared snapshot
+ */
+export class ResourceAlertMonitor implements vscode.Disposable {
+    private _tracker = new ThresholdTracker();
+    private _lastSample: number | undefined;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly _cli: ContainerCli,
+        store: ContainerStateStore,
+        private readonly _outputChannel: vscode.OutputChannel
+    ) {
+        this._disposables.push(
+            // Every poll at the refresh interval is a sample, even when usage is identical to the previous one
+            store.onDidChange((snapshot) => {
+                if (isAlertSample(this._lastSample, snapshot.timestamp, this._cli.config.refreshInterval)) {
+                    this._lastSample = snapshot.timestamp;
+                    this.evaluate(snapshot.stats, snapshot.containers);
+                }
+            })
+        );
+    }
+
+    private evaluate(stats: readonly ContainerStats[], containers: readonly Container[]): void {
+        const rules = this._cli.config.resourceAlerts;
+        const sampled = new Set<string>();
+
+        for (const usage of stats) {
+            const container = containers.find(c => c.id === usage.id);
+            if (!container) {
+                continue;
+            }
+
+            for (const metric of ['cpu', 'memory'] as const) {
+                const rule = resolveAlertRule(rules, container, metric);
+                // Memory percentages are meaningless without a limit
+                if (!rule || (metric === 'memory' && usage.memoryLimitBytes <= 0)) {
+                    continue;
+                }
+                const key = `${container.id}:${metric}`;
+                const value = metric === 'cpu' ? usage.cpuPercent : usage.memoryPercent;
+                sampled.add(key);
+                const samples = rule.samples ?? DEFAULT_ALERT_SAMPLES;
+                if (this._tracker.record(key, value >= rule.threshold, samples)) {
+                    void this.notify(container, usage, metric, rule.threshold, samples);
+                }
+            }
+        }
+        this._tracker.retain(sampled);
+    }
+
+    /**
+     * Show a warning with shortcuts to investigate or restart the container
+     */
+    private async notify(
+        container: Container,
+        usage: ContainerStats,
+        metric: ResourceAlertRule['metric'],
+        threshold: number,
+        samples: number
+    ): Promise<void> {
+        const name = container.name || container.id.substring(0, 12);
+        const detail = metric === 'cpu'
+            ? `CPU at ${usage.cpuPercent.toFixed(0)}%`
+            : `memory at ${usage.memoryPercent.toFixed(0)}% of its ${usage.memoryLimit} limit`;
+        this._outputChannel.appendLine(`[ALERT] ${name}: ${detail} (threshold ${threshold}%, ${samples} samples)`);
+
+        const action = await vscode.window.showWarningMessage(
+            `Container "${name}" has been over ${threshold}% ${metric === 'cpu' ? 'CPU' : 'memory'} for ${samples} samples: ${detail}`,
+            'Open Stats',
+            'View Logs',
+            'Restart'
+        );
+        switch (action) {
+            case 'Open Stats':
+                await vscode.commands.executeCommand('appleContainers.showStatsDashboard', container.id);
+                break;
+            case 'View Logs':
+                await vscode.commands.executeCommand('appleContainers.viewLogs', new ContainerItem(container));
+                break;
+            case 'Restart':
+                await vscode.commands.executeCommand('appleContainers.restartContainer', new ContainerItem(container));
+                break;
+        }
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,190 @@
+/**
+ * Run Profiles
+ * Named RunContainerOptions stored per workspace folder in .vscode/apple-containers.json
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RunContainerOptions } from './types';
+
+// Workspace-relative location of the profiles file
+export const PROFILES_FILE = '.vscode/apple-containers.json';
+
+/**
+ * Contents of the profiles file
+ */
+export interface ProfilesFile {
+    profiles?: Record<string, RunContainerOptions>;
+}
+
+/**
+ * A run profile and the workspace folder that defines it
+ */
+export interface RunProfile {
+    name: string;
+    options: RunContainerOptions;
+    folder: vscode.WorkspaceFolder;
+    uri: vscode.Uri;
+}
+
+/**
+ * Resolve relative host paths in a profile against its workspace folder
+ * Named volumes are left alone; only sources starting with "." or "~" are treated as paths
+ */
+export function resolveProfileOptions(options: RunContainerOptions, folderPath: string, homeDir = ''): RunContainerOptions {
+    const resolvePath = (value: string) => {
+        if (value.startsWith('~/') && homeDir) {
+            return path.join(homeDir, value.substring(2));
+        }
+        return value.startsWith('.') ? path.resolve(folderPath, value) : value;
+    };
+
+    return {
+        ...options,
+        envFile: options.envFile ? resolvePath(options.envFile) : undefined,
+        volumes: options.volumes?.map(v => ({ ...v, source: resolvePath(v.source) })),
+        mounts: options.mounts?.map(m => (m.type === 'bind' ? { ...m, source: resolvePath(m.source) } : m))
+    };
+}
+
+/**
+ * Store host paths inside the workspace folder relative to it, so profiles can be shared
+ */
+export function relativizeProfileOptions(options: RunContainerOptions, folderPath: string): RunContainerOptions {
+    const relativePath = (value: string) => {
+        if (!path.isAbsolute(value)) {
+            return value;
+        }
+        const relative = path.relative(folderPath, value);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            return value;
+        }
+        return `./${relative.split(path.sep).join('/')}`;
+    };
+
+    return {
+        ...options,
+        envFile: options.envFile ? relativePath(options.envFile) : undefined,
+        volumes: options.volumes?.map(v => ({ ...v, source: relativePath(v.source) })),
+        mounts: options.mounts?.map(m => (m.type === 'bind' ? { ...m, source: relativePath(m.source) } : m))
+    };
+}
+
+/**
+ * Parse the profiles file, keeping only entries that name an image
+ */
+export function parseProfilesFile(text: string): Record<string, RunContainerOptions> {
+    const parsed = JSON.parse(text) as ProfilesFile;
+    const profiles: Record<string, RunContainerOptions> = {};
+    for (const [name, options] of Object.entries(parsed?.profiles ?? {})) {
+        if (options && typeof options === 'object' && typeof options.image === 'string' && options.image) {
+            profiles[name] = options;
+        }
+    }
+    return profiles;
+}
+
+/**
+ * Loads run profiles from every workspace folder and keeps them up to date
+ */
+export class RunProfileStore implements vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private _profiles: RunProfile[] = [];
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _outputChannel: vscode.OutputChannel) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROFILES_FILE}`);
+        this._disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.reload()),
+            watcher.onDidChange(() => this.reload()),
+            watcher.onDidDelete(() => this.reload()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reload())
+        );
+        void this.reload();
+    }
+
+    /**
+     * Profiles from all workspace folders, sorted by name
+     */
+    get profiles(): readonly RunProfile[] {
+        return this._profiles;
+    }
+
+    /**
+     * Re-read every profiles file
+     */
+    async reload(): Promise<void> {
+        const profiles: RunProfile[] = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const uri = vscode.Uri.joinPath(folder.uri, PROFILES_FILE);
+            const file = await this.readFile(uri);
+            if (!file) {
+                continue;
+            }
+            try {
+                for (const [name, options] of Object.entries(parseProfilesFile(file))) {
+                    profiles.push({ name, options, folder, uri });
+                }
+            } catch (err) {
+                this._outputChannel.appendLine(`[PROFILES] Ignoring ${uri.fsPath}: ${err instanceof Error ? err.message : err}`);
+            }
+        }
+        this._profiles = profiles.sort((a, b) => a.name.localeCompare(b.name));
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Add or replace a profile in a folder's profiles file
+     */
+    async save(folder: vscode.WorkspaceFolder, name: string, options: RunContainerOptions): Promise<vscode.Uri> {
+        const uri = vscode.Uri.joinPath(folder.uri, PROFILES_FILE);
+        const existing = await this.readFile(uri);
+        // Let a malformed file fail loudly instead of overwriting it
+        const content: ProfilesFile = existing ? JSON.parse(existing) : {};
+        content.profiles = { ...content.profiles, [name]: options };
+        await this.writeFile(uri, content);
+        await this.reload();
+        return uri;
+    }
+
+    /**
+     * Remove a profile from its profiles file
+     */
+    async delete(profile: RunProfile): Promise<void> {
+        const existing = await this.readFile(profile.uri);
+        if (!existing) {
+            return;
+        }
+        const content: ProfilesFile = JSON.parse(existing);
+        if (content.profiles) {
+            delete content.profiles[profile.name];
+        }
+        await this.writeFile(profile.uri, content);
+        await this.reload();
+    }
+
+    private async readFile(uri: vscode.Uri): Promise<string | undefined> {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            return Buffer.from(bytes).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeFile(uri: vscode.Uri, content: ProfilesFile): Promise<void> {
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(`${JSON.stringify(content, null, 4)}\n`, 'utf8'));
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * Shell Probe
+ * Finds the shells a container can attach with and remembers the shell chosen per image
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ContainerCli } from './cli';
+import { CliErrorKind, CliResult } from './types';
+
+// Shells to look for in addition to /etc/shells, which minimal images often lack
+const KNOWN_SHELLS = ['/bin/bash', '/usr/bin/bash', '/bin/zsh', '/usr/bin/zsh', '/bin/ash', '/bin/sh'];
+
+// Shells that may exist without /bin/sh, e.g. in distroless debug images
+const FALLBACK_SHELLS = ['/busybox/sh', '/bin/bash'];
+
+// Programs that /etc/shells lists but that are not useful to attach with
+const NOT_SHELLS = new Set(['tmux', 'screen', 'rbash', 'false', 'nologin', 'git-shell']);
+
+// Preferred order when offering shells; unknown shells come after these
+const SHELL_RANK = ['bash', 'zsh', 'fish', 'ash', 'sh', 'dash'];
+
+const PROBE_SCRIPT = [
+    `{ cat /etc/shells 2>/dev/null; printf '%s\\n' ${KNOWN_SHELLS.join(' ')}; } | while read -r s; do`,
+    '  case "$s" in /*) [ -x "$s" ] && echo "$s";; esac',
+    'done',
+    'exit 0'
+].join('\n');
+
+const PREFERENCES_KEY = 'appleContainers.shellPreferences';
+
+/**
+ * Parse the probe output into executable shells, one per name, best first
+ * @param preferred a shell to put first when present, e.g. the configured default
+ */
+export function parseShellList(output: string, preferred?: string): string[] {
+    const byName = new Map<string, string>();
+    for (const line of output.split('\n')) {
+        const shell = line.trim();
+        const name = path.posix.basename(shell);
+        if (shell.startsWith('/') && !NOT_SHELLS.has(name) && !byName.has(name)) {
+            byName.set(name, shell);
+        }
+    }
+
+    const rank = (shell: string) => {
+        if (preferred && (shell === preferred || path.posix.basename(shell) === path.posix.basename(preferred))) {
+            return -1;
+        }
+        const index = SHELL_RANK.indexOf(path.posix.basename(shell));
+        return index === -1 ? SHELL_RANK.length : index;
+    };
+    return Array.from(byName.values()).sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Find a shell in a probed list by path, or by name when the image keeps it elsewhere (e.g. /usr/bin/bash)
+ */
+export function findShell(shells: readonly string[], shell: string | undefined): string | undefined {
+    if (!shell) {
+        return undefined;
+    }
+    return shells.find(s => s === shell) ?? shells.find(s => path.posix.basename(s) === path.posix.basename(shell));
+}
+
+/**
+ * Find the shells available in a running container
+ * Resolves with an empty list when the container has no shell at all
+ */
+export async function probeShells(cli: ContainerCli, id: string, preferred?: string): Promise<CliResult<string[]>> {
+    const result = await cli.execInContainer(id, ['/bin/sh', '-c', PROBE_SCRIPT], { timeout: 15000 });
+    if (result.success) {
+        return { success: true, data: parseShellList(result.data?.stdout.toString('utf8') ?? '', preferred), exitCode: 0 };
+    }
+
+    // The container could not be reached, so trying other shells would fail the same way
+    const kind = result.cliError?.kind;
+    if (kind === CliErrorKind.NotInstalled || kind === CliErrorKind.ServiceNotRunning || kind === CliErrorKind.Timeout) {
+        return { ...result, data: undefined };
+    }
+
+    // Without /bin/sh nothing can be scripted, so start each candidate directly
+    const found: string[] = [];
+    for (const shell of FALLBACK_SHELLS) {
+        const attempt = await cli.execInContainer(id, [shell, '-c', 'exit 0'], { timeout: 15000 });
+        if (attempt.success) {
+            found.push(shell);
+        }
+    }
+    return { success: true, data: parseShellList(found.join('\n'), preferred), exitCode: 0 };
+}
+
+/**
+ * Shell chosen per image, persisted in global state so it applies in every workspace
+ */
+export class ShellPreferenceStore {
+    constructor(private readonly _state: vscode.Memento) { }
+
+    /**
+     * Shell remembered for an image
+     */
+    get(image: string): string | undefined {
+        return this.all()[image];
+    }
+
+    /**
+     * Remember the shell for an image
+     */
+    async set(image: string, shell: string): Promise<void> {
+        await this._state.update(PREFERENCES_KEY, { ...this.all(), [image]: shell });
+    }
+
+    private all(): Record<string, string> {
+        return this._state.get<Record<string, string>>(PREFERENCES_KEY, {});
+    }
+}
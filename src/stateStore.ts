@@ -0,0 +1,226 @@
+/**
+ * Container State Store
+ * Polls the CLI once per tick and shares the snapshot with all views
+ */
+
+import * as vscode from 'vscode';
+import { ContainerCli } from './cli';
+import { Container, ContainerStats, Image, Volume, Network } from './types';
+
+/**
+ * Point-in-time view of all container resources
+ * Slices keep their previous array reference when unchanged between polls
+ */
+export interface StateSnapshot {
+    containers: Container[];
+    images: Image[];
+    volumes: Volume[];
+    networks: Network[];
+    /** Usage of running containers; empty unless usage is shown or resource alerts are configured */
+    stats: ContainerStats[];
+    timestamp: number;
+}
+
+// Upper bound for the backed-off polling interval while no view is visible
+const MAX_HIDDEN_INTERVAL_MS = 60000;
+
+/**
+ * Shared poller for containers, images, volumes, networks and container stats
+ */
+export class ContainerStateStore implements vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<StateSnapshot>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private _snapshot: StateSnapshot = {
+        containers: [],
+        images: [],
+        volumes: [],
+        networks: [],
+        stats: [],
+        timestamp: 0
+    };
+    private _hasLoaded = false;
+    private _inFlight: Promise<StateSnapshot> | undefined;
+    private _queued: Promise<StateSnapshot> | undefined;
+
+    private _timer: ReturnType<typeof setTimeout> | undefined;
+    private _started = false;
+    private _visibleViews = new Set<string>();
+    private _hiddenTicks = 0;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _cli: ContainerCli) {
+        this._disposables.push(
+            vscode.window.onDidChangeWindowState((state) => {
+                if (state.focused) {
+                    // Catch up immediately when the user comes back
+                    void this.refresh();
+                }
+                this.schedule();
+            }),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('appleContainers')) {
+                    void this.refresh();
+                    this.schedule();
+                }
+            })
+        );
+    }
+
+    /**
+     * Latest snapshot
+     */
+    get snapshot(): StateSnapshot {
+        return this._snapshot;
+    }
+
+    /**
+     * Whether at least one poll has completed
+     */
+    get hasLoaded(): boolean {
+        return this._hasLoaded;
+    }
+
+    /**
+     * Begin polling on the configured refresh interval
+     */
+    start(): void {
+        this._started = true;
+        this.schedule();
+    }
+
+    /**
+     * Record whether a tree view is visible; polling backs off while none are
+     */
+    setViewVisible(viewId: string, visible: boolean): void {
+        const wasHidden = this._visibleViews.size === 0;
+        if (visible) {
+            this._visibleViews.add(viewId);
+        } else {
+            this._visibleViews.delete(viewId);
+        }
+
+        if (this._started && wasHidden && visible) {
+            this._hiddenTicks = 0;
+            void this.refresh();
+            this.schedule();
+        }
+    }
+
+    /**
+     * Fetch a new snapshot
+     * Calls made while a poll is running share a single follow-up poll,
+     * so callers always observe state from after their own changes
+     */
+    refresh(): Promise<StateSnapshot> {
+        if (this._inFlight) {
+            if (!this._queued) {
+                this._queued = this._inFlight.then(() => {
+                    this._queued = undefined;
+                    return this.refresh();
+                });
+            }
+            return this._queued;
+        }
+
+        this._inFlight = this.fetch().finally(() => {
+            this._inFlight = undefined;
+        });
+        return this._inFlight;
+    }
+
+    /**
+     * Query the CLI and publish the result
+     */
+    private async fetch(): Promise<StateSnapshot> {
+        const [containers, images, volumes, networks, stats] = await Promise.all([
+            this._cli.listContainers(this._cli.config.showStoppedContainers),
+            this._cli.listImages(),
+            this._cli.listVolumes(),
+            this._cli.listNetworks(),
+            // One batched stats call covers every running container
+            this.wantsStats() ? this._cli.getStats() : Promise.resolve([])
+        ]);
+
+        const previous = this._snapshot;
+        this._snapshot = {
+            containers: reuseIfEqual(previous.containers, containers),
+            images: reuseIfEqual(previous.images, images),
+            volumes: reuseIfEqual(previous.volumes, volumes),
+            networks: reuseIfEqual(previous.networks, networks),
+            stats: reuseIfEqual(previous.stats, stats),
+            timestamp: Date.now()
+        };
+        this._hasLoaded = true;
+        this._onDidChange.fire(this._snapshot);
+        return this._snapshot;
+    }
+
+    /**
+     * Whether any consumer of the snapshot needs container stats
+     */
+    private wantsStats(): boolean {
+        const { showResourceUsage, resourceAlerts } = this._cli.config;
+        return showResourceUsage || resourceAlerts.length > 0;
+    }
+
+    /**
+     * Whether polls keep their interval in the background, which users opt into for resource alerts
+     */
+    private mustPollSteadily(): boolean {
+        const { resourceAlerts, resourceAlertsInBackground } = this._cli.config;
+        return resourceAlertsInBackground && resourceAlerts.length > 0;
+    }
+
+    /**
+     * Schedule the next poll based on interval, focus and view visibility
+     */
+    private schedule(): void {
+        if (this._timer) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+
+        const interval = this._cli.config.refreshInterval;
+        const steady = this.mustPollSteadily();
+        if (!this._started || interval <= 0 || (!vscode.window.state.focused && !steady)) {
+            return;
+        }
+
+        let delay = interval;
+        if (this._visibleViews.size === 0 && !steady) {
+            // Double the interval for every hidden tick, within a fixed ceiling
+            delay = Math.min(interval * 2 ** this._hiddenTicks, Math.max(interval, MAX_HIDDEN_INTERVAL_MS));
+        }
+
+        this._timer = setTimeout(() => {
+            this._timer = undefined;
+            if (this._visibleViews.size === 0 && !steady) {
+                this._hiddenTicks++;
+            }
+            // Skip the tick entirely if a refresh is already running
+            const pending = this._inFlight ?? this.refresh();
+            void pending.finally(() => this.schedule());
+        }, delay);
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._started = false;
+        if (this._timer) {
+            clearTimeout(this._timer);
+            this._timer = undefined;
+        }
+        this._disposables.forEach(d => d.dispose());
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * Return the previous array when its contents are unchanged, so listeners can compare by reference
+ */
+function reuseIfEqual<T>(previous: T[], next: T[]): T[] {
+    return JSON.stringify(previous) === JSON.stringify(next) ? previous : next;
+}
@@ -4,7 +4,56 @@
  */
 
 import * as assert from 'assert';
-import { ContainerStatus } from '../../types';
+import * as http from 'http';
+import * as net from 'net';
+import * as vscode from 'vscode';
+import { Container, ContainerStatus, CliErrorKind, ContainerGrouping, ResourceAlertRule } from '../../types';
+import {
+    LineBuffer,
+    buildExecArgs,
+    buildRunArgs,
+    classifyCliError,
+    formatCommandLine,
+    isContainerActive,
+    isUnsupportedCommand,
+    parseContainerInspect,
+    parseImageReference,
+    parseRawStats,
+    tarCreateArgs,
+    tarExtractArgs,
+    terminalRunOptions
+} from '../../cli';
+import { PullProgressParser, parseSize } from '../../pullProgress';
+import { diffContainers, matchesWatchList, ContainerEventType } from '../../containerEvents';
+import { summarizeSystem } from '../../panels/systemOverviewPanel';
+import { StatsHistory, sortStatsRows } from '../../panels/statsPanel';
+import { mapWithConcurrency, resolveSelection } from '../../commands/bulk';
+import { groupContainers, memoryPressureColor, COMPOSE_PROJECT_LABEL } from '../../providers/containersProvider';
+import { ContainerDetailSection, buildContainerSections, parseEnvEntry, portHost } from '../../providers/containerDetails';
+import {
+    parseMountSpec,
+    parsePortSpec,
+    splitCommandLine,
+    validateContainerName,
+    validateMemory
+} from '../../commands/runWizard';
+import { parseProfilesFile, relativizeProfileOptions, resolveProfileOptions } from '../../runProfiles';
+import { LogMerger, formatLogPrefix } from '../../aggregatedLogs';
+import { isHttpResponse, portUrl, probePortScheme } from '../../portProbe';
+import { addHistoryEntry, describeExecOptions } from '../../execHistory';
+import { findShell, parseShellList } from '../../shellProbe';
+import { ThresholdTracker, isAlertSample, matchesLabel, resolveAlertRule } from '../../resourceAlerts';
+import { parseDirectoryListing, parseFileType, parseStatOutput } from '../../providers/containerFileSystem';
+import { LogLine, compileLogFilter, parseLogTimestamp, parseSince, renderLogLines } from '../../providers/logDocumentProvider';
+import {
+    StatusFilter,
+    EMPTY_FILTER,
+    composeProjectName,
+    containerMatchesFilter,
+    describeFilter,
+    imageMatchesFilter,
+    namedResourceMatchesFilter
+} from '../../viewFilters';
 
 suite('Types Test Suite', () => {
     test('ContainerStatus enum should have expected values', () => {
@@ -112,6 +161,803 @@ suite('CLI Wrapper Test Suite', () => {
     });
 });
 
+suite('LineBuffer Test Suite', () => {
+    test('should split complete lines and keep partial output', () => {
+        const buffer = new LineBuffer();
+        assert.deepStrictEqual(buffer.push('first\nsec'), ['first']);
+        assert.deepStrictEqual(buffer.push('ond\r\nthird'), ['second']);
+        assert.deepStrictEqual(buffer.flush(), ['third']);
+        assert.deepStrictEqual(buffer.flush(), []);
+    });
+
+    test('should treat carriage returns as line breaks', () => {
+        const buffer = new LineBuffer();
+        assert.deepStrictEqual(buffer.push('10%\r20%\r'), ['10%', '20%']);
+    });
+
+    test('should not split a CRLF that spans two chunks', () => {
+        const buffer = new LineBuffer();
+        assert.deepStrictEqual(buffer.push('a\r'), ['a']);
+        assert.deepStrictEqual(buffer.push('\nb\r\n'), ['b']);
+        assert.deepStrictEqual(buffer.push('\r'), ['']);
+        assert.deepStrictEqual(buffer.push('\n'), []);
+        assert.deepStrictEqual(buffer.push('\n'), ['']);
+    });
+});
+
+suite('CLI Error Classification Test Suite', () => {
+    const classify = (message: string, extra: Partial<Parameters<typeof classifyCliError>[0]> = {}) =>
+        classifyCliError({ message, exitCode: 1, cliPath: 'container', ...extra }).kind;
+
+    test('should detect a missing CLI binary', () => {
+        assert.strictEqual(classify('spawn container ENOENT', { errno: 'ENOENT' }), CliErrorKind.NotInstalled);
+    });
+
+    test('should detect the system service not running', () => {
+        assert.strictEqual(
+            classify('Error: interrupted: "XPC connection error: Connection invalid"'),
+            CliErrorKind.ServiceNotRunning
+        );
+    });
+
+    test('should classify common resource errors', () => {
+        assert.strictEqual(classify('Error: container abc not found'), CliErrorKind.NotFound);
+        assert.strictEqual(classify('Error: volume data already exists'), CliErrorKind.Conflict);
+        assert.strictEqual(classify('Error: volume data is in use by container web'), CliErrorKind.InUse);
+        assert.strictEqual(classify('open /var/run: permission denied'), CliErrorKind.PermissionDenied);
+        assert.strictEqual(classify('something else'), CliErrorKind.Unknown);
+    });
+
+    test('should prefer cancellation and timeout over message patterns', () => {
+        assert.strictEqual(classify('not found', { cancelled: true }), CliErrorKind.Cancelled);
+        assert.strictEqual(classify('not found', { timedOut: true }), CliErrorKind.Timeout);
+    });
+
+    test('should recognise subcommands the CLI does not have', () => {
+        assert.ok(isUnsupportedCommand("Error: Unexpected argument 'pause'"));
+        assert.ok(!isUnsupportedCommand('Error: container web not found'));
+    });
+});
+
+suite('Pull Progress Test Suite', () => {
+    test('parseSize should handle SI and IEC units', () => {
+        assert.strictEqual(parseSize('1.5KB'), 1500);
+        assert.strictEqual(parseSize('2 MiB'), 2 * 1024 * 1024);
+        assert.strictEqual(parseSize('garbage'), undefined);
+    });
+
+    test('should track per-layer progress', () => {
+        const parser = new PullProgressParser();
+        parser.parse('a1b2c3d4e5f6: Downloading 5MB/10MB');
+        const update = parser.parse('0123456789ab: Pull complete');
+        assert.ok(update);
+        assert.strictEqual(update.layers.length, 2);
+        assert.strictEqual(update.percent, 75);
+        assert.strictEqual(update.message, '1/2 layers complete, a1b2c3d4e5f6: Downloading');
+    });
+
+    test('should read aggregate percentage and blob counts', () => {
+        const parser = new PullProgressParser();
+        const update = parser.parse('\u001b[2KFetching image 40% (2 of 5 blobs, 25.6/57.3 MB)');
+        assert.ok(update);
+        assert.strictEqual(update.percent, 40);
+        assert.strictEqual(update.layers.filter(l => l.done).length, 2);
+        assert.strictEqual(update.message, 'Fetching image 40% (2 of 5 blobs, 25.6/57.3 MB)');
+    });
+
+    test('should ignore blank lines', () => {
+        const parser = new PullProgressParser();
+        assert.strictEqual(parser.parse('   '), undefined);
+    });
+});
+
+suite('Container Events Test Suite', () => {
+    const container = (id: string, status: ContainerStatus) => ({
+        id,
+        name: id,
+        image: 'nginx:latest',
+        status,
+        created: ''
+    });
+
+    test('should report created, started, stopped and removed containers', () => {
+        const previous = [
+            container('web', ContainerStatus.Running),
+            container('db', ContainerStatus.Stopped),
+            container('old', ContainerStatus.Stopped)
+        ];
+        const next = [
+            container('web', ContainerStatus.Stopped),
+            container('db', ContainerStatus.Running),
+            container('new', ContainerStatus.Created)
+        ];
+
+        const events = diffContainers(previous, next).map(e => `${e.type}:${e.container.id}`);
+        assert.deepStrictEqual(events, [
+            `${ContainerEventType.Stopped}:web`,
+            `${ContainerEventType.Started}:db`,
+            `${ContainerEventType.Created}:new`,
+            `${ContainerEventType.Removed}:old`
+        ]);
+    });
+
+    test('should report nothing for identical snapshots', () => {
+        const list = [container('web', ContainerStatus.Running)];
+        assert.deepStrictEqual(diffContainers(list, list), []);
+    });
+
+    test('should not report pausing or resuming as a stop or start', () => {
+        const running = [container('web', ContainerStatus.Running)];
+        const paused = [container('web', ContainerStatus.Paused)];
+        assert.deepStrictEqual(diffContainers(running, paused), []);
+        assert.deepStrictEqual(diffContainers(paused, running), []);
+        assert.deepStrictEqual(
+            diffContainers(paused, [container('web', ContainerStatus.Stopped)]).map(e => e.type),
+            [ContainerEventType.Stopped]
+        );
+    });
+
+    test('matchesWatchList should support wildcards on name and image', () => {
+        const web = container('web-1', ContainerStatus.Running);
+        assert.ok(matchesWatchList(web, ['web-*']));
+        assert.ok(matchesWatchList(web, ['nginx:*']));
+        assert.ok(!matchesWatchList(web, ['db']));
+    });
+});
+
+suite('System Overview Test Suite', () => {
+    test('parseImageReference should simplify Docker Hub references', () => {
+        assert.deepStrictEqual(parseImageReference('docker.io/library/nginx:1.25'), { repository: 'nginx', tag: '1.25' });
+        assert.deepStrictEqual(parseImageReference('localhost:5000/app'), { repository: 'localhost:5000/app', tag: 'latest' });
+    });
+
+    test('summarizeSystem should count reclaimable image space', () => {
+        const containers = [{
+            id: 'web',
+            name: 'web',
+            image: 'docker.io/library/nginx:latest',
+            status: ContainerStatus.Running,
+            created: ''
+        }];
+        const images = [
+            { id: 'a', repository: 'nginx', tag: 'latest', size: '', sizeBytes: 100, created: '' },
+            { id: 'b', repository: 'redis', tag: '7', size: '', sizeBytes: 50, created: '' }
+        ];
+
+        const summary = summarizeSystem(containers, images, 3, 2);
+        assert.strictEqual(summary.runningContainers, 1);
+        assert.strictEqual(summary.totalImageBytes, 150);
+        assert.strictEqual(summary.reclaimableImageBytes, 50);
+        assert.strictEqual(summary.unusedImages, 1);
+        assert.strictEqual(summary.volumes, 3);
+    });
+});
+
+suite('Bulk Operations Test Suite', () => {
+    test('mapWithConcurrency should respect the limit and keep order', async () => {
+        let active = 0;
+        let peak = 0;
+        const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+            return n * 10;
+        });
+
+        assert.deepStrictEqual(results, [10, 20, 30, 40, 50]);
+        assert.strictEqual(peak, 2);
+    });
+
+    test('resolveSelection should prefer the selection and drop foreign items', () => {
+        const isString = (value: unknown): value is string => typeof value === 'string';
+        assert.deepStrictEqual(resolveSelection('a', ['a', 1, 'b'], isString), ['a', 'b']);
+        assert.deepStrictEqual(resolveSelection('a', undefined, isString), ['a']);
+        assert.deepStrictEqual(resolveSelection(undefined, [], isString), []);
+    });
+});
+
+suite('Container Grouping Test Suite', () => {
+    const containers: Container[] = [
+        { id: 'api', name: 'api', image: 'node:20', status: ContainerStatus.Running, created: '', labels: { [COMPOSE_PROJECT_LABEL]: 'shop', tier: 'backend' } },
+        { id: 'db', name: 'db', image: 'postgres:16', status: ContainerStatus.Stopped, created: '', labels: { [COMPOSE_PROJECT_LABEL]: 'shop' } },
+        { id: 'tmp', name: 'tmp', image: 'node:20', status: ContainerStatus.Running, created: '' }
+    ];
+
+    test('should group by compose project with ungrouped containers last', () => {
+        const groups = groupContainers(containers, ContainerGrouping.ComposeProject);
+        assert.deepStrictEqual(groups.map(g => [g.key, g.containers.map(c => c.id)]), [
+            ['shop', ['api', 'db']],
+            ['', ['tmp']]
+        ]);
+    });
+
+    test('should group by a custom label, image or status', () => {
+        assert.deepStrictEqual(groupContainers(containers, ContainerGrouping.Label, 'tier').map(g => g.key), ['backend', '']);
+        assert.deepStrictEqual(groupContainers(containers, ContainerGrouping.Image).map(g => g.key), ['node:20', 'postgres:16']);
+        assert.deepStrictEqual(groupContainers(containers, ContainerGrouping.Status).map(g => g.key), ['running', 'stopped']);
+    });
+});
+
+suite('Container Details Test Suite', () => {
+    test('should split environment entries on the first equals sign', () => {
+        assert.deepStrictEqual(parseEnvEntry('PATH=/usr/bin:/bin'), { name: 'PATH', value: '/usr/bin:/bin' });
+        assert.deepStrictEqual(parseEnvEntry('OPTS=a=b'), { name: 'OPTS', value: 'a=b' });
+        assert.deepStrictEqual(parseEnvEntry('EMPTY'), { name: 'EMPTY', value: '' });
+    });
+
+    test('should map wildcard port bindings to localhost', () => {
+        assert.strictEqual(portHost({ hostPort: 8080, containerPort: 80, protocol: 'tcp' }), 'localhost');
+        assert.strictEqual(portHost({ hostIp: '0.0.0.0', hostPort: 8080, containerPort: 80, protocol: 'tcp' }), 'localhost');
+        assert.strictEqual(portHost({ hostIp: '127.0.0.1', hostPort: 8080, containerPort: 80, protocol: 'tcp' }), '127.0.0.1');
+        assert.strictEqual(portHost({ hostIp: '::1', hostPort: 8080, containerPort: 80, protocol: 'tcp' }), '[::1]');
+    });
+
+    // Shape of `container inspect` output, with settings nested under configuration
+    const rawInspect = {
+        status: 'stopped',
+        exitCode: 137,
+        networks: [{ network: 'default', hostname: 'web', address: '192.168.64.3/24', gateway: '192.168.64.1' }],
+        configuration: {
+            id: 'web',
+            image: { reference: 'docker.io/library/nginx:latest', descriptor: { digest: 'sha256:abc' } },
+            initProcess: {
+                executable: '/docker-entrypoint.sh',
+                arguments: ['nginx', '-g', 'daemon off;'],
+                environment: ['PATH=/usr/bin:/bin', 'NGINX_VERSION=1.27'],
+                workingDirectory: '/usr/share/nginx',
+                user: { id: { uid: 0, gid: 0 } }
+            },
+            resources: { cpus: 4, memoryInBytes: 1073741824 },
+            mounts: [
+                { type: { virtiofs: {} }, source: '/Users/dev/site', destination: '/usr/share/nginx/html', options: ['ro'] },
+                { type: { tmpfs: {} }, source: '', destination: '/tmp', options: [] }
+            ],
+            publishedPorts: [{ hostAddress: '0.0.0.0', hostPort: 8080, containerPort: 80, proto: 'tcp' }],
+            platform: { os: 'linux', architecture: 'arm64' }
+        }
+    };
+
+    test('should normalise container inspect output', () => {
+        const inspect = parseContainerInspect(rawInspect);
+        assert.strictEqual(inspect.id, 'web');
+        assert.strictEqual(inspect.imageId, 'sha256:abc');
+        assert.strictEqual(inspect.status, ContainerStatus.Stopped);
+        assert.strictEqual(inspect.exitCode, 137);
+        assert.deepStrictEqual(inspect.platform, { os: 'linux', arch: 'arm64' });
+        assert.deepStrictEqual(inspect.config.cmd, ['/docker-entrypoint.sh', 'nginx', '-g', 'daemon off;']);
+        assert.strictEqual(inspect.config.workingDir, '/usr/share/nginx');
+        assert.strictEqual(inspect.config.user, '0:0');
+        assert.deepStrictEqual(inspect.resources, { cpus: 4, memory: '1.0 GiB' });
+        assert.deepStrictEqual(inspect.mounts, [
+            { type: 'bind', source: '/Users/dev/site', target: '/usr/share/nginx/html', readonly: true },
+            { type: 'tmpfs', source: '', target: '/tmp', readonly: false }
+        ]);
+        assert.deepStrictEqual(inspect.networks, [{ name: 'default', ipAddress: '192.168.64.3', macAddress: undefined }]);
+        assert.deepStrictEqual(inspect.ports, [{ hostIp: '0.0.0.0', hostPort: 8080, containerPort: 80, protocol: 'tcp' }]);
+    });
+
+    test('should read the exit code from a status object', () => {
+        const inspect = parseContainerInspect({ status: { state: 'stopped', exitCode: 1 }, configuration: { id: 'web' } });
+        assert.strictEqual(inspect.status, ContainerStatus.Stopped);
+        assert.strictEqual(inspect.exitCode, 1);
+    });
+
+    test('should tolerate missing inspect fields', () => {
+        const inspect = parseContainerInspect({ status: 'running' });
+        assert.strictEqual(inspect.config.workingDir, undefined);
+        assert.strictEqual(inspect.exitCode, undefined);
+        assert.strictEqual(inspect.mounts, undefined);
+    });
+
+    test('should build every detail section from inspect output', () => {
+        const sections = buildContainerSections('web', parseContainerInspect(rawInspect)).map(s => s.section);
+        assert.deepStrictEqual(sections, [
+            ContainerDetailSection.Ports,
+            ContainerDetailSection.Mounts,
+            ContainerDetailSection.Environment,
+            ContainerDetailSection.Networks,
+            ContainerDetailSection.Resources
+        ]);
+    });
+});
+
+suite('View Filter Test Suite', () => {
+    const scope = { folderPaths: ['/Users/dev/shop'], projectNames: ['shop'] };
+    const web: Container = {
+        id: 'abc123', name: 'web', image: 'nginx:latest', status: ContainerStatus.Running, created: '',
+        labels: { 'com.docker.compose.project.working_dir': '/Users/dev/shop/deploy', tier: 'frontend' }
+    };
+    const db: Container = { id: 'def456', name: 'db', image: 'postgres:16', status: ContainerStatus.Stopped, created: '' };
+
+    test('should match text against name, image and labels', () => {
+        assert.ok(containerMatchesFilter(web, { ...EMPTY_FILTER, text: 'NGINX' }, scope));
+        assert.ok(containerMatchesFilter(web, { ...EMPTY_FILTER, text: 'tier=front' }, scope));
+        assert.ok(!containerMatchesFilter(db, { ...EMPTY_FILTER, text: 'nginx' }, scope));
+    });
+
+    test('should filter containers by status and workspace', () => {
+        assert.ok(containerMatchesFilter(web, { ...EMPTY_FILTER, status: StatusFilter.Running }, scope));
+        assert.ok(!containerMatchesFilter(web, { ...EMPTY_FILTER, status: StatusFilter.Stopped }, scope));
+        assert.ok(containerMatchesFilter(web, { ...EMPTY_FILTER, workspaceOnly: true }, scope));
+        assert.ok(!containerMatchesFilter(db, { ...EMPTY_FILTER, workspaceOnly: true }, scope));
+    });
+
+    test('should count paused containers as running', () => {
+        const paused = { ...web, status: ContainerStatus.Paused };
+        assert.ok(containerMatchesFilter(paused, { ...EMPTY_FILTER, status: StatusFilter.Running }, scope));
+        assert.ok(!containerMatchesFilter(paused, { ...EMPTY_FILTER, status: StatusFilter.Stopped }, scope));
+    });
+
+    test('should treat running and paused containers as active', () => {
+        assert.ok(isContainerActive(web));
+        assert.ok(isContainerActive({ ...web, status: ContainerStatus.Paused }));
+        assert.ok(!isContainerActive({ ...web, status: ContainerStatus.Stopped }));
+        assert.ok(!isContainerActive({ ...web, status: ContainerStatus.Created }));
+    });
+
+    test('should treat images used by workspace containers and project-prefixed resources as workspace', () => {
+        const filter = { ...EMPTY_FILTER, workspaceOnly: true };
+        const image = (repository: string) => ({ id: repository, repository, tag: 'latest', size: '', created: '' });
+        assert.ok(imageMatchesFilter(image('nginx'), filter, scope, [web]));
+        assert.ok(imageMatchesFilter(image('shop-api'), filter, scope, []));
+        assert.ok(!imageMatchesFilter(image('redis'), filter, scope, [web]));
+        assert.ok(namedResourceMatchesFilter('shop_data', undefined, filter, scope));
+        assert.ok(!namedResourceMatchesFilter('other_data', undefined, filter, scope));
+    });
+
+    test('should normalise folder names and describe filters', () => {
+        assert.strictEqual(composeProjectName('My Shop.App'), 'myshopapp');
+        assert.strictEqual(describeFilter(EMPTY_FILTER), undefined);
+        assert.strictEqual(
+            describeFilter({ text: 'web', status: StatusFilter.Running, workspaceOnly: true }),
+            'Filtered: "web", running, this workspace'
+        );
+    });
+});
+
+suite('Run Options Test Suite', () => {
+    test('should parse port specs', () => {
+        assert.deepStrictEqual(parsePortSpec('8080:80'), { host: 8080, container: 80, hostIp: undefined, protocol: 'tcp' });
+        assert.deepStrictEqual(parsePortSpec('127.0.0.1:5353:53/udp'), { host: 5353, container: 53, hostIp: '127.0.0.1', protocol: 'udp' });
+        assert.strictEqual(typeof parsePortSpec('80'), 'string');
+        assert.strictEqual(typeof parsePortSpec('70000:80'), 'string');
+        assert.strictEqual(typeof parsePortSpec('host:8080:80'), 'string');
+    });
+
+    test('should parse mount specs', () => {
+        assert.deepStrictEqual(parseMountSpec('type=tmpfs,target=/tmp'), { type: 'tmpfs', source: '', target: '/tmp', readonly: false });
+        assert.deepStrictEqual(parseMountSpec('source=/src,dst=/app,readonly'), { type: 'bind', source: '/src', target: '/app', readonly: true });
+        assert.strictEqual(typeof parseMountSpec('type=volume,target=/data'), 'string');
+        assert.strictEqual(typeof parseMountSpec('type=bind,source=/src,target=app'), 'string');
+    });
+
+    test('should split command lines with quotes', () => {
+        assert.deepStrictEqual(splitCommandLine('sh -c "echo hello world"'), ['sh', '-c', 'echo hello world']);
+        assert.deepStrictEqual(splitCommandLine(`echo '' 'it''s'`), ['echo', '', 'its']);
+    });
+
+    test('should validate names and memory limits', () => {
+        assert.strictEqual(validateContainerName(''), undefined);
+        assert.strictEqual(validateContainerName('web-1'), undefined);
+        assert.ok(validateContainerName('-web'));
+        assert.ok(validateContainerName('web', ['web']));
+        assert.strictEqual(validateMemory('512M'), undefined);
+        assert.strictEqual(validateMemory('2GiB'), undefined);
+        assert.ok(validateMemory('lots'));
+    });
+
+    test('should build run arguments and a quoted preview', () => {
+        const args = buildRunArgs({
+            image: 'nginx:latest',
+            name: 'web',
+            detach: true,
+            ports: [{ host: 8080, container: 80 }],
+            env: { GREETING: 'hello world' },
+            cmd: ['nginx', '-g', 'daemon off;']
+        });
+        assert.deepStrictEqual(args, [
+            'run', '--name', 'web', '--detach', '--env', 'GREETING=hello world',
+            '--publish', '8080:80', 'nginx:latest', 'nginx', '-g', 'daemon off;'
+        ]);
+        assert.strictEqual(
+            formatCommandLine('container', ['run', '--env', 'A=it\'s', 'alpine']),
+            `container run --env 'A=it'\\''s' alpine`
+        );
+    });
+
+    test('should keep every option for terminal runs', () => {
+        const options = {
+            image: 'node:20',
+            detach: true,
+            remove: true,
+            ports: [{ host: 3000, container: 3000 }],
+            network: 'dev',
+            memory: '1G'
+        };
+        const args = buildRunArgs(terminalRunOptions(options));
+        assert.deepStrictEqual(args, [
+            'run', '--rm', '--interactive', '--tty', '--publish', '3000:3000',
+            '--network', 'dev', '--memory', '1G', 'node:20'
+        ]);
+        assert.strictEqual(terminalRunOptions({ image: 'alpine', tty: false }).tty, false);
+    });
+
+    test('should run IPv6 ports and tmpfs mounts as the wizard shows them', () => {
+        const port = parsePortSpec('[::1]:8080:80');
+        const mount = parseMountSpec('type=tmpfs,target=/tmp');
+        assert.ok(typeof port !== 'string' && typeof mount !== 'string');
+        const args = buildRunArgs({ image: 'alpine', ports: [port], mounts: [mount] });
+        assert.deepStrictEqual(args, [
+            'run', '--publish', '[::1]:8080:80', '--mount', 'type=tmpfs,target=/tmp', 'alpine'
+        ]);
+    });
+});
+
+suite('Run Profiles Test Suite', () => {
+    test('should keep only profiles that name an image', () => {
+        const profiles = parseProfilesFile(JSON.stringify({
+            profiles: {
+                db: { image: 'postgres:16', env: { POSTGRES_PASSWORD: 'dev' } },
+                broken: { name: 'no-image' }
+            }
+        }));
+        assert.deepStrictEqual(Object.keys(profiles), ['db']);
+        assert.throws(() => parseProfilesFile('{ not json'));
+    });
+
+    test('should round-trip workspace paths as relative paths', () => {
+        const options = {
+            image: 'node:20',
+            envFile: '/work/app/.env',
+            volumes: [{ source: '/work/app/src', target: '/app' }, { source: 'cache', target: '/cache' }],
+            mounts: [{ type: 'bind' as const, source: '/elsewhere', target: '/data' }]
+        };
+        const relative = relativizeProfileOptions(options, '/work/app');
+        assert.strictEqual(relative.envFile, './.env');
+        assert.deepStrictEqual(relative.volumes?.map(v => v.source), ['./src', 'cache']);
+        assert.strictEqual(relative.mounts?.[0].source, '/elsewhere');
+
+        const resolved = resolveProfileOptions(relative, '/work/app');
+        assert.strictEqual(resolved.envFile, '/work/app/.env');
+        assert.deepStrictEqual(resolved.volumes?.map(v => v.source), ['/work/app/src', 'cache']);
+    });
+
+    test('should expand home-relative paths', () => {
+        const resolved = resolveProfileOptions({ image: 'alpine', envFile: '~/secrets.env' }, '/work/app', '/Users/dev');
+        assert.strictEqual(resolved.envFile, '/Users/dev/secrets.env');
+    });
+});
+
+suite('Log Viewer Test Suite', () => {
+    test('should read timestamps at the start of log lines', () => {
+        assert.strictEqual(parseLogTimestamp('2024-05-01T10:00:00Z GET /')?.toISOString(), '2024-05-01T10:00:00.000Z');
+        assert.strictEqual(parseLogTimestamp('[2024-05-01 10:00:00,250+00:00] INFO ready')?.toISOString(), '2024-05-01T10:00:00.250Z');
+        assert.strictEqual(parseLogTimestamp('INFO 2024-05-01T10:00:00Z ready'), undefined);
+    });
+
+    test('should parse since durations and dates', () => {
+        const now = new Date('2024-05-01T12:00:00Z');
+        assert.strictEqual(parseSince('10m', now)?.toISOString(), '2024-05-01T11:50:00.000Z');
+        assert.strictEqual(parseSince('2h', now)?.toISOString(), '2024-05-01T10:00:00.000Z');
+        assert.strictEqual(parseSince('2024-04-30T00:00:00Z', now)?.toISOString(), '2024-04-30T00:00:00.000Z');
+        assert.strictEqual(parseSince('', now), undefined);
+        assert.strictEqual(parseSince('yesterday-ish', now), undefined);
+    });
+
+    test('should report invalid filters', () => {
+        assert.ok(compileLogFilter('error|warn') instanceof RegExp);
+        assert.strictEqual(typeof compileLogFilter('(unclosed'), 'string');
+        assert.strictEqual(compileLogFilter(''), undefined);
+    });
+
+    test('should apply since, filter and timestamps when rendering', () => {
+        const received = new Date('2024-05-01T12:00:00Z');
+        const lines: LogLine[] = [
+            { text: '2024-05-01T11:00:00Z ERROR old failure', received, time: new Date('2024-05-01T11:00:00Z') },
+            { text: '2024-05-01T11:55:00Z INFO started', received, time: new Date('2024-05-01T11:55:00Z') },
+            { text: '  at stack frame', received, time: new Date('2024-05-01T11:55:00Z') },
+            { text: 'no timestamp yet', received }
+        ];
+        const now = new Date('2024-05-01T12:00:00Z');
+        const query = { tail: 0, since: '10m', timestamps: false, filter: '' };
+
+        assert.deepStrictEqual(renderLogLines(lines, query, now), [
+            '2024-05-01T11:55:00Z INFO started',
+            '  at stack frame',
+            'no timestamp yet'
+        ]);
+        assert.deepStrictEqual(renderLogLines(lines, { ...query, since: '', filter: 'error' }, now), [
+            '2024-05-01T11:00:00Z ERROR old failure'
+        ]);
+        assert.deepStrictEqual(renderLogLines(lines.slice(2), { ...query, timestamps: true }, now), [
+            '2024-05-01T11:55:00.000Z   at stack frame',
+            '2024-05-01T12:00:00.000Z (received) no timestamp yet'
+        ]);
+    });
+});
+
+suite('Combined Logs Test Suite', () => {
+    test('should merge lines from several containers by timestamp', () => {
+        const merger = new LogMerger(500);
+        merger.push(0, '2024-05-01T10:00:02Z api request', 1000);
+        merger.push(1, '2024-05-01T10:00:01Z worker job', 1100);
+        merger.push(1, '  continued', 1150);
+        merger.push(0, '2024-05-01T10:00:03Z api response', 1200);
+
+        const lines = merger.drain(2000);
+        assert.deepStrictEqual(lines.map(l => l.text), [
+            '2024-05-01T10:00:01Z worker job',
+            '  continued',
+            '2024-05-01T10:00:02Z api request',
+            '2024-05-01T10:00:03Z api response'
+        ]);
+        assert.strictEqual(merger.pendingCount, 0);
+    });
+
+    test('should hold lines back for the merge window', () => {
+        const merger = new LogMerger(500);
+        merger.push(0, 'first', 1000);
+        merger.push(1, 'second', 1400);
+        assert.deepStrictEqual(merger.drain(1600).map(l => l.text), ['first']);
+        assert.deepStrictEqual(merger.drain(1600, true).map(l => l.text), ['second']);
+    });
+
+    test('should drop the oldest lines when the buffer is full', () => {
+        const merger = new LogMerger(500, 2);
+        merger.push(0, 'a', 1000);
+        merger.push(0, 'b', 1001);
+        merger.push(0, 'c', 1002);
+        assert.strictEqual(merger.takeDropped(), 1);
+        assert.strictEqual(merger.takeDropped(), 0);
+        assert.deepStrictEqual(merger.drain(0, true).map(l => l.text), ['b', 'c']);
+    });
+
+    test('should pad and colour prefixes per container', () => {
+        assert.strictEqual(formatLogPrefix('db', 0, 6), '\x1b[36mdb     |\x1b[0m ');
+        assert.notStrictEqual(formatLogPrefix('db', 1, 6), formatLogPrefix('db', 0, 6));
+    });
+});
+
+suite('Stats Dashboard Test Suite', () => {
+    const MiB = 1024 * 1024;
+    const raw = (cpuUsageUsec: number, networkRxBytes: number) => ({
+        id: 'web',
+        memoryUsageBytes: 256 * MiB,
+        memoryLimitBytes: 1024 * MiB,
+        cpuUsageUsec,
+        networkRxBytes,
+        networkTxBytes: 0,
+        blockReadBytes: 0,
+        blockWriteBytes: 0,
+        numProcesses: 4
+    });
+
+    test('should derive CPU and memory percentages from raw counters', () => {
+        const first = parseRawStats(raw(1000000, 0), undefined, 1000);
+        assert.strictEqual(first.cpuPercent, 0);
+        assert.strictEqual(first.memoryPercent, 25);
+        assert.strictEqual(first.memoryUsage, '256.0 MiB');
+        assert.strictEqual(first.pids, 4);
+
+        const second = parseRawStats(raw(1500000, 0), { cpuUsageUsec: 1000000, time: 1000 }, 2000);
+        assert.strictEqual(second.cpuPercent, 50);
+    });
+
+    test('should accept preformatted stats', () => {
+        const stats = parseRawStats({ id: 'db', name: 'db', cpuPercent: '12.5%', memoryUsage: '64MiB', memoryLimit: '1GiB', memoryPercent: 6.25 });
+        assert.strictEqual(stats.cpuPercent, 12.5);
+        assert.strictEqual(stats.memoryUsageBytes, 64 * MiB);
+        assert.strictEqual(stats.memoryPercent, 6.25);
+    });
+
+    test('should keep a rolling window of I/O rates', () => {
+        const history = new StatsHistory(2);
+        history.add([parseRawStats(raw(0, 0))], 1000);
+        history.add([parseRawStats(raw(0, 4096))], 3000);
+        history.add([parseRawStats(raw(0, 8192))], 4000);
+
+        const points = history.points('web');
+        assert.deepStrictEqual(points.map(p => p.networkIn), [2048, 4096]);
+
+        history.add([], 5000);
+        assert.deepStrictEqual(history.points('web'), []);
+    });
+
+    test('should colour containers near their memory limit', () => {
+        const usage = (memoryPercent: number, memoryLimitBytes = 1024 * MiB) =>
+            ({ ...parseRawStats({ id: 'web' }), memoryPercent, memoryLimitBytes });
+        assert.strictEqual(memoryPressureColor(undefined), 'charts.green');
+        assert.strictEqual(memoryPressureColor(usage(50)), 'charts.green');
+        assert.strictEqual(memoryPressureColor(usage(85)), 'charts.yellow');
+        assert.strictEqual(memoryPressureColor(usage(97)), 'charts.red');
+        assert.strictEqual(memoryPressureColor(usage(97, 0)), 'charts.green');
+    });
+
+    test('should sort rows by the heaviest consumer', () => {
+        const row = (name: string, cpuPercent: number, memoryUsageBytes: number) => ({
+            id: name,
+            name,
+            stats: { ...parseRawStats({ id: name }), cpuPercent, memoryUsageBytes },
+            points: []
+        });
+        const rows = [row('api', 5, 300), row('db', 40, 100), row('cache', 5, 200)];
+        assert.deepStrictEqual(sortStatsRows(rows, 'cpu').map(r => r.name), ['db', 'api', 'cache']);
+        assert.deepStrictEqual(sortStatsRows(rows, 'memory').map(r => r.name), ['api', 'cache', 'db']);
+        assert.deepStrictEqual(sortStatsRows(rows, 'name').map(r => r.name), ['api', 'cache', 'db']);
+    });
+});
+
+suite('Resource Alerts Test Suite', () => {
+    const container = (name: string, labels: Record<string, string> = {}): Container => ({
+        id: name, name, image: 'postgres:16', status: ContainerStatus.Running, created: '', labels
+    });
+    const rules: ResourceAlertRule[] = [
+        { metric: 'memory', threshold: 90 },
+        { metric: 'memory', threshold: 75, label: 'tier=database' },
+        { metric: 'memory', threshold: 60, container: 'cache-*' },
+        { metric: 'cpu', threshold: 200, label: 'tier' }
+    ];
+
+    test('should match labels by key or key=value', () => {
+        const db = container('db', { tier: 'database' });
+        assert.ok(matchesLabel(db, 'tier'));
+        assert.ok(matchesLabel(db, 'tier=database'));
+        assert.ok(!matchesLabel(db, 'tier=web'));
+        assert.ok(!matchesLabel(db, 'owner'));
+    });
+
+    test('should prefer container rules, then label rules, then global rules', () => {
+        assert.strictEqual(resolveAlertRule(rules, container('cache-1', { tier: 'database' }), 'memory')?.threshold, 60);
+        assert.strictEqual(resolveAlertRule(rules, container('db', { tier: 'database' }), 'memory')?.threshold, 75);
+        assert.strictEqual(resolveAlertRule(rules, container('web'), 'memory')?.threshold, 90);
+        assert.strictEqual(resolveAlertRule(rules, container('web'), 'cpu'), undefined);
+        assert.strictEqual(resolveAlertRule(rules, container('api', { tier: 'web' }), 'cpu')?.threshold, 200);
+    });
+
+    test('should alert once per sustained breach', () => {
+        const tracker = new ThresholdTracker();
+        const samples = [true, true, true, true, false, true, true, true];
+        assert.deepStrictEqual(samples.map(over => tracker.record('db:memory', over, 3)),
+            [false, false, true, false, false, false, false, true]);
+    });
+
+    test('should forget containers that were not sampled', () => {
+        const tracker = new ThresholdTracker();
+        tracker.record('db:memory', true, 2);
+        tracker.retain(new Set());
+        assert.strictEqual(tracker.record('db:memory', true, 2), false);
+    });
+
+    test('should only count refreshes about one interval apart as samples', () => {
+        assert.ok(isAlertSample(undefined, 1000, 5000));
+        assert.ok(!isAlertSample(1000, 1500, 5000), 'an extra refresh after a command is not a sample');
+        assert.ok(isAlertSample(1000, 5900, 5000), 'a timer poll may land slightly early');
+        assert.ok(isAlertSample(1000, 7000, 5000));
+    });
+});
+
+suite('Port Probe Test Suite', () => {
+    const listen = async (server: net.Server): Promise<number> => {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        return (server.address() as net.AddressInfo).port;
+    };
+
+    test('should build URLs for published ports', () => {
+        assert.strictEqual(portUrl({ hostPort: 8080, containerPort: 80, protocol: 'tcp' }, 'http'), 'http://localhost:8080');
+        assert.strictEqual(portUrl({ hostIp: '::1', hostPort: 8443, containerPort: 443, protocol: 'tcp' }, 'https'), 'https://[::1]:8443');
+    });
+
+    test('should recognise HTTP responses', () => {
+        assert.ok(isHttpResponse('HTTP/1.1 200 OK'));
+        assert.ok(!isHttpResponse('SSH-2.0-OpenSSH'));
+    });
+
+    test('should detect a plain HTTP server', async () => {
+        const server = http.createServer((_req, res) => res.end('ok'));
+        const port = await listen(server);
+        try {
+            assert.strictEqual(await probePortScheme({ hostIp: '127.0.0.1', hostPort: port, containerPort: 80, protocol: 'tcp' }, 500), 'http');
+        } finally {
+            server.close();
+        }
+    });
+
+    test('should report ports that do not speak HTTP', async () => {
+        const server = net.createServer(socket => socket.end('SSH-2.0-test\r\n'));
+        const port = await listen(server);
+        try {
+            assert.strictEqual(await probePortScheme({ hostIp: '127.0.0.1', hostPort: port, containerPort: 22, protocol: 'tcp' }, 500), undefined);
+        } finally {
+            server.close();
+        }
+    });
+});
+
+suite('Container File System Test Suite', () => {
+    test('should build exec arguments', () => {
+        assert.deepStrictEqual(
+            buildExecArgs('web', ['sh', '-c', 'cat > "$1"', 'sh', '/tmp/a b'], { env: { A: '1' }, workdir: '/app', user: 'root', input: Buffer.from('x') }),
+            ['exec', '--env', 'A=1', '--workdir', '/app', '--user', 'root', '--interactive', 'web', 'sh', '-c', 'cat > "$1"', 'sh', '/tmp/a b']
+        );
+        assert.deepStrictEqual(buildExecArgs('web', ['ls']), ['exec', 'web', 'ls']);
+    });
+
+    test('should archive a path under its base name', () => {
+        assert.deepStrictEqual(tarCreateArgs('/etc/nginx'), ['-c', '-f', '-', '-C', '/etc', 'nginx']);
+        assert.deepStrictEqual(tarCreateArgs('/app/main.py'), ['-c', '-f', '-', '-C', '/app', 'main.py']);
+        assert.deepStrictEqual(tarExtractArgs('/srv'), ['-x', '-p', '-o', '-f', '-', '-C', '/srv']);
+    });
+
+    test('should parse file types including symbolic links', () => {
+        assert.strictEqual(parseFileType('f'), vscode.FileType.File);
+        assert.strictEqual(parseFileType('d'), vscode.FileType.Directory);
+        assert.strictEqual(parseFileType('ld'), vscode.FileType.Directory | vscode.FileType.SymbolicLink);
+    });
+
+    test('should parse stat output', () => {
+        const stat = parseStatOutput('f 0 1234 1700000000\n');
+        assert.strictEqual(stat.type, vscode.FileType.File);
+        assert.strictEqual(stat.size, 1234);
+        assert.strictEqual(stat.mtime, 1700000000000);
+        assert.strictEqual(stat.permissions, vscode.FilePermission.Readonly);
+        assert.strictEqual(parseStatOutput('d 1 4096 0').permissions, undefined);
+    });
+
+    test('should parse directory listings with unusual names', () => {
+        assert.deepStrictEqual(parseDirectoryListing('f\tapp.js\nd\tmy dir\nlf\t.env\n'), [
+            ['app.js', vscode.FileType.File],
+            ['my dir', vscode.FileType.Directory],
+            ['.env', vscode.FileType.File | vscode.FileType.SymbolicLink]
+        ]);
+    });
+});
+
+suite('Exec History Test Suite', () => {
+    test('should move re-run commands to the front', () => {
+        const history = addHistoryEntry([{ command: 'ls' }, { command: 'env' }], { command: 'env' });
+        assert.deepStrictEqual(history.map(e => e.command), ['env', 'ls']);
+    });
+
+    test('should keep the same command with different options separately', () => {
+        const history = addHistoryEntry([{ command: 'id' }], { command: 'id', user: 'root' });
+        assert.strictEqual(history.length, 2);
+    });
+
+    test('should drop the oldest commands over the limit', () => {
+        const history = addHistoryEntry([{ command: 'a' }, { command: 'b' }], { command: 'c' }, 2);
+        assert.deepStrictEqual(history.map(e => e.command), ['c', 'a']);
+    });
+
+    test('should describe exec options', () => {
+        assert.strictEqual(describeExecOptions({ user: 'root', workdir: '/app', env: { A: '1', B: '2' } }), 'as root in /app with 2 variables');
+        assert.strictEqual(describeExecOptions({}), '');
+    });
+});
+
+suite('Shell Probe Test Suite', () => {
+    const probed = '/bin/sh\n/usr/bin/sh\n/bin/bash\n/usr/bin/bash\n/bin/rbash\n/usr/bin/tmux\n/bin/dash\n';
+
+    test('should list each shell once, best first', () => {
+        assert.deepStrictEqual(parseShellList(probed), ['/bin/bash', '/bin/sh', '/bin/dash']);
+    });
+
+    test('should put the preferred shell first', () => {
+        assert.deepStrictEqual(parseShellList(probed, '/usr/bin/dash'), ['/bin/dash', '/bin/bash', '/bin/sh']);
+    });
+
+    test('should report no shells for empty output', () => {
+        assert.deepStrictEqual(parseShellList(''), []);
+    });
+
+    test('should find shells by path or name', () => {
+        const shells = ['/bin/bash', '/bin/sh'];
+        assert.strictEqual(findShell(shells, '/usr/bin/bash'), '/bin/bash');
+        assert.strictEqual(findShell(shells, '/bin/zsh'), undefined);
+        assert.strictEqual(findShell(shells, undefined), undefined);
+    });
+});
+
 suite('Container Data Structures Test Suite', () => {
     test('Container should have required properties', () => {
         const container = {
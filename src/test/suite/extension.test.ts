@@ -4,6 +4,9 @@
  */
 
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 
 suite('Extension Test Suite', () => {
@@ -30,12 +33,41 @@ suite('Extension Test Suite', () => {
             'appleContainers.runContainer',
             'appleContainers.startContainer',
             'appleContainers.stopContainer',
+            'appleContainers.pauseContainer',
+            'appleContainers.unpauseContainer',
             'appleContainers.restartContainer',
             'appleContainers.deleteContainer',
             'appleContainers.attachContainer',
+            'appleContainers.attachContainerWithShell',
             'appleContainers.viewLogs',
+            'appleContainers.viewCombinedLogs',
+            'appleContainers.toggleCombinedLogsPaused',
+            'appleContainers.filterLogs',
+            'appleContainers.logOptions',
+            'appleContainers.saveLogs',
             'appleContainers.inspectContainer',
             'appleContainers.containerStats',
+            'appleContainers.showStatsDashboard',
+            'appleContainers.groupContainersBy',
+            'appleContainers.startGroup',
+            'appleContainers.stopGroup',
+            'appleContainers.deleteGroup',
+            'appleContainers.openPortInBrowser',
+            'appleContainers.copyPortUrl',
+            'appleContainers.browseFiles',
+            'appleContainers.copyIntoContainer',
+            'appleContainers.copyFromContainer',
+            'appleContainers.execCommand',
+            'appleContainers.revealMount',
+            'appleContainers.copyEnvVar',
+            'appleContainers.filterContainers',
+            'appleContainers.filterImages',
+            'appleContainers.filterVolumes',
+            'appleContainers.filterNetworks',
+            'appleContainers.runProfile',
+            'appleContainers.saveRunProfile',
+            'appleContainers.openProfile',
+            'appleContainers.deleteProfile',
             'appleContainers.pullImage',
             'appleContainers.buildImage',
             'appleContainers.deleteImage',
@@ -49,6 +81,10 @@ suite('Extension Test Suite', () => {
             'appleContainers.deleteNetwork',
             'appleContainers.inspectNetwork',
             'appleContainers.pruneImages',
+            'appleContainers.startSystem',
+            'appleContainers.stopSystem',
+            'appleContainers.systemStatus',
+            'appleContainers.systemOverview',
             'appleContainers.openSettings'
         ];
 
@@ -92,6 +128,40 @@ suite('Extension Test Suite', () => {
             true,
             'confirmBeforeDelete should default to true'
         );
+
+        assert.strictEqual(
+            config.get('exitNotifications'),
+            'all',
+            'exitNotifications should default to "all"'
+        );
+    });
+
+    test('Log documents should keep following after switching language', async () => {
+        const extension = vscode.extensions.getExtension('sanjay3290.apple-containers');
+        await extension?.activate();
+
+        // A stand-in CLI that prints one line and keeps the stream open
+        const script = path.join(os.tmpdir(), `apple-containers-logs-${process.pid}.sh`);
+        fs.writeFileSync(script, '#!/bin/sh\necho "hello from logs"\nsleep 30\n', { mode: 0o755 });
+        const config = vscode.workspace.getConfiguration('appleContainers');
+        await config.update('containerPath', script, vscode.ConfigurationTarget.Global);
+        try {
+            const uri = vscode.Uri.from({ scheme: 'container-logs', path: '/language-test.log', query: 'language-test' });
+            const doc = await vscode.workspace.openTextDocument(uri);
+            assert.strictEqual(doc.languageId, 'log', 'Log documents should get the log language from their path');
+            await vscode.window.showTextDocument(doc, { preview: false });
+            const relabelled = await vscode.languages.setTextDocumentLanguage(doc, 'plaintext');
+
+            const deadline = Date.now() + 10000;
+            while (!relabelled.getText().includes('hello from logs') && Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, 100));
+            }
+            assert.ok(relabelled.getText().includes('hello from logs'), 'Log document should show output after the language switch');
+            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+        } finally {
+            await config.update('containerPath', undefined, vscode.ConfigurationTarget.Global);
+            fs.unlinkSync(script);
+        }
     });
 
     test('Views should be registered', () => {
@@ -201,6 +201,15 @@ export interface ContainerStats {
     blockIn: string;
     blockOut: string;
     pids: number;
+    /** Byte counts behind the formatted values above; network and block I/O are cumulative */
+    memoryUsageBytes: number;
+    memoryLimitBytes: number;
+    networkInBytes: number;
+    networkOutBytes: number;
+    blockInBytes: number;
+    blockOutBytes: number;
+    /** Cumulative CPU time, when the CLI reports it instead of a percentage */
+    cpuUsageUsec?: number;
 }
 
 /**
@@ -263,6 +272,23 @@ export interface BuildImageOptions {
     labels?: Record<string, string>;
 }
 
+/**
+ * Options for running a command in a container
+ */
+export interface ExecOptions {
+    env?: Record<string, string>;
+    workdir?: string;
+    user?: string;
+}
+
+/**
+ * Captured output of a command run in a container
+ */
+export interface ExecOutput {
+    stdout: Buffer;
+    stderr: string;
+}
+
 /**
  * Pull image options
  */
@@ -294,6 +320,37 @@ export interface CreateNetworkOptions {
     labels?: Record<string, string>;
 }
 
+/**
+ * Categories of CLI failures
+ */
+export enum CliErrorKind {
+    NotInstalled = 'notInstalled',
+    ServiceNotRunning = 'serviceNotRunning',
+    NotFound = 'notFound',
+    Conflict = 'conflict',
+    InUse = 'inUse',
+    Timeout = 'timeout',
+    PermissionDenied = 'permissionDenied',
+    ParseError = 'parseError',
+    Cancelled = 'cancelled',
+    Unknown = 'unknown'
+}
+
+/**
+ * Classified CLI failure, discriminated by kind
+ */
+export type CliError =
+    | { kind: CliErrorKind.NotInstalled; message: string; cliPath: string }
+    | { kind: CliErrorKind.ServiceNotRunning; message: string }
+    | { kind: CliErrorKind.NotFound; message: string }
+    | { kind: CliErrorKind.Conflict; message: string }
+    | { kind: CliErrorKind.InUse; message: string }
+    | { kind: CliErrorKind.Timeout; message: string; timeoutMs?: number }
+    | { kind: CliErrorKind.PermissionDenied; message: string }
+    | { kind: CliErrorKind.ParseError; message: string; output: string }
+    | { kind: CliErrorKind.Cancelled; message: string }
+    | { kind: CliErrorKind.Unknown; message: string; exitCode: number };
+
 /**
  * CLI execution result
  */
@@ -301,9 +358,48 @@ export interface CliResult<T = unknown> {
     success: boolean;
     data?: T;
     error?: string;
+    /** Classified failure, set whenever success is false */
+    cliError?: CliError;
     exitCode: number;
 }
 
+/**
+ * State of the `container` system service
+ */
+export enum SystemServiceState {
+    Running = 'running',
+    Stopped = 'stopped',
+    NotInstalled = 'notInstalled',
+    Unknown = 'unknown'
+}
+
+/**
+ * How the Containers view groups its items
+ */
+export enum ContainerGrouping {
+    None = 'none',
+    ComposeProject = 'composeProject',
+    Label = 'label',
+    Image = 'image',
+    Status = 'status'
+}
+
+/**
+ * A resource alert rule from appleContainers.resourceAlerts
+ * Rules naming a container take precedence over label rules, which take precedence over global rules
+ */
+export interface ResourceAlertRule {
+    metric: 'cpu' | 'memory';
+    /** Percentage of CPU, or of the memory limit, at or above which a sample counts */
+    threshold: number;
+    /** Consecutive samples over the threshold before alerting */
+    samples?: number;
+    /** Container name or image pattern (`*` wildcard) */
+    container?: string;
+    /** Label key, or key=value */
+    label?: string;
+}
+
 /**
  * Extension configuration
  */
@@ -313,4 +409,13 @@ export interface ExtensionConfig {
     showStoppedContainers: boolean;
     defaultShell: string;
     confirmBeforeDelete: boolean;
+    exitNotifications: 'off' | 'watched' | 'all';
+    watchedContainers: string[];
+    maxParallelOperations: number;
+    containerGrouping: ContainerGrouping;
+    groupingLabel: string;
+    logTail: number;
+    showResourceUsage: boolean;
+    resourceAlerts: ResourceAlertRule[];
+    resourceAlertsInBackground: boolean;
 }
@@ -0,0 +1,253 @@
+/**
+ * View Filters
+ * Per-view text, status and workspace filters persisted in workspace state
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { isContainerActive, parseImageReference } from './cli';
+import { Container, Image } from './types';
+
+// Labels set by compose-style tools on the resources of a stack
+const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+const COMPOSE_WORKING_DIR_LABEL = 'com.docker.compose.project.working_dir';
+
+/**
+ * Views that support filtering
+ */
+export type FilterableView = 'containers' | 'images' | 'volumes' | 'networks';
+
+/**
+ * Container status filter
+ */
+export enum StatusFilter {
+    All = 'all',
+    Running = 'running',
+    Stopped = 'stopped'
+}
+
+/**
+ * Filter applied to a single view
+ */
+export interface ViewFilter {
+    /** Case-insensitive substring matched against names, images and labels */
+    text: string;
+    /** Only used by the containers view */
+    status: StatusFilter;
+    /** Only show resources that belong to an open workspace folder */
+    workspaceOnly: boolean;
+}
+
+export const EMPTY_FILTER: ViewFilter = {
+    text: '',
+    status: StatusFilter.All,
+    workspaceOnly: false
+};
+
+/**
+ * Whether a filter hides anything
+ */
+export function isFilterActive(filter: ViewFilter): boolean {
+    return filter.text.length > 0 || filter.status !== StatusFilter.All || filter.workspaceOnly;
+}
+
+/**
+ * Short summary of a filter for the view description
+ */
+export function describeFilter(filter: ViewFilter): string | undefined {
+    const parts: string[] = [];
+    if (filter.text) {
+        parts.push(`"${filter.text}"`);
+    }
+    if (filter.status !== StatusFilter.All) {
+        parts.push(filter.status);
+    }
+    if (filter.workspaceOnly) {
+        parts.push('this workspace');
+    }
+    return parts.length > 0 ? `Filtered: ${parts.join(', ')}` : undefined;
+}
+
+/**
+ * Open workspace folders, as paths and compose project names
+ */
+export interface WorkspaceScope {
+    folderPaths: string[];
+    projectNames: string[];
+}
+
+/**
+ * Normalise a folder name the way compose derives a default project name
+ */
+export function composeProjectName(folderName: string): string {
+    return folderName.toLowerCase().replace(/[^a-z0-9_-]/g, '');
+}
+
+/**
+ * Describe the currently open workspace folders
+ */
+export function getWorkspaceScope(): WorkspaceScope {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return {
+        folderPaths: folders.map(f => f.uri.fsPath),
+        projectNames: folders.map(f => composeProjectName(f.name)).filter(Boolean)
+    };
+}
+
+/**
+ * Case-insensitive match of the filter text against values and label keys/values
+ */
+export function matchesText(text: string, values: Array<string | undefined>, labels?: Record<string, string>): boolean {
+    if (!text) {
+        return true;
+    }
+    const needle = text.toLowerCase();
+    const haystack = [...values, ...Object.entries(labels ?? {}).map(([key, value]) => `${key}=${value}`)];
+    return haystack.some(value => value !== undefined && value.toLowerCase().includes(needle));
+}
+
+/**
+ * Whether a named resource belongs to the workspace by compose label or project-prefixed name
+ */
+function namedResourceInWorkspace(name: string, labels: Record<string, string> | undefined, scope: WorkspaceScope): boolean {
+    const project = labels?.[COMPOSE_PROJECT_LABEL];
+    if (project && scope.projectNames.includes(project)) {
+        return true;
+    }
+    const lower = name.toLowerCase();
+    return scope.projectNames.some(p => lower === p || lower.startsWith(`${p}_`) || lower.startsWith(`${p}-`));
+}
+
+/**
+ * Whether a container belongs to the workspace by its compose labels
+ */
+export function containerInWorkspace(container: Container, scope: WorkspaceScope): boolean {
+    const workingDir = container.labels?.[COMPOSE_WORKING_DIR_LABEL];
+    if (workingDir && scope.folderPaths.some(folder => isWithin(folder, workingDir))) {
+        return true;
+    }
+    const project = container.labels?.[COMPOSE_PROJECT_LABEL];
+    return project !== undefined && scope.projectNames.includes(project);
+}
+
+/**
+ * Apply a filter to a container
+ */
+export function containerMatchesFilter(container: Container, filter: ViewFilter, scope: WorkspaceScope): boolean {
+    const isRunning = isContainerActive(container);
+    if (filter.status === StatusFilter.Running && !isRunning) {
+        return false;
+    }
+    if (filter.status === StatusFilter.Stopped && isRunning) {
+        return false;
+    }
+    if (filter.workspaceOnly && !containerInWorkspace(container, scope)) {
+        return false;
+    }
+    return matchesText(filter.text, [container.name, container.id, container.image], container.labels);
+}
+
+/**
+ * Apply a filter to an image; images used by workspace containers count as part of the workspace
+ * @param workspaceContainers Containers already known to belong to the workspace
+ */
+export function imageMatchesFilter(
+    image: Image,
+    filter: ViewFilter,
+    scope: WorkspaceScope,
+    workspaceContainers: Container[]
+): boolean {
+    const reference = `${image.repository}:${image.tag}`;
+    if (filter.workspaceOnly) {
+        const usedByWorkspace = workspaceContainers.some((c) => {
+            const { repository, tag } = parseImageReference(c.image);
+            return `${repository}:${tag}` === reference;
+        });
+        const baseName = image.repository.split('/').pop() ?? image.repository;
+        if (!usedByWorkspace && !namedResourceInWorkspace(baseName, image.labels, scope)) {
+            return false;
+        }
+    }
+    return matchesText(filter.text, [reference, image.id], image.labels);
+}
+
+/**
+ * Apply a filter to a volume or network
+ */
+export function namedResourceMatchesFilter(
+    name: string,
+    labels: Record<string, string> | undefined,
+    filter: ViewFilter,
+    scope: WorkspaceScope
+): boolean {
+    if (filter.workspaceOnly && !namedResourceInWorkspace(name, labels, scope)) {
+        return false;
+    }
+    return matchesText(filter.text, [name], labels);
+}
+
+/**
+ * Check whether a path is the folder itself or inside it
+ */
+function isWithin(folder: string, candidate: string): boolean {
+    const relative = path.relative(folder, candidate);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Holds the filter of each view and persists it in workspace state
+ */
+export class ViewFilterStore implements vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<FilterableView>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private _scope: WorkspaceScope = getWorkspaceScope();
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly _state: vscode.Memento) {
+        this._disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this._scope = getWorkspaceScope();
+                for (const view of ['containers', 'images', 'volumes', 'networks'] as FilterableView[]) {
+                    if (this.get(view).workspaceOnly) {
+                        this._onDidChange.fire(view);
+                    }
+                }
+            })
+        );
+    }
+
+    /**
+     * Open workspace folders used by the "only this workspace" filter
+     */
+    get scope(): WorkspaceScope {
+        return this._scope;
+    }
+
+    /**
+     * Current filter of a view
+     */
+    get(view: FilterableView): ViewFilter {
+        return { ...EMPTY_FILTER, ...this._state.get<Partial<ViewFilter>>(this.key(view)) };
+    }
+
+    /**
+     * Replace the filter of a view
+     */
+    async set(view: FilterableView, filter: ViewFilter): Promise<void> {
+        await this._state.update(this.key(view), isFilterActive(filter) ? filter : undefined);
+        this._onDidChange.fire(view);
+    }
+
+    private key(view: FilterableView): string {
+        return `appleContainers.filter.${view}`;
+    }
+
+    /**
+     * Dispose resources
+     */
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+        this._onDidChange.dispose();
+    }
+}